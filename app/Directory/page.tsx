@@ -1,7 +1,13 @@
 'use client';
 
+import { Suspense } from 'react';
 import AlumniDirectory from '../components/AlumniDirectory';
 
+// Suspense is required because AlumniDirectory keeps its filters in the search params
 export default function DirectoryPage() {
-  return <AlumniDirectory />;
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <AlumniDirectory />
+    </Suspense>
+  );
 }
@@ -0,0 +1,219 @@
+// app/admin/audit/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface AuditEntry {
+  id: number;
+  actorId: number;
+  actorEmail: string;
+  action: string;
+  targetUserId: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export default function AuditLogPage() {
+  const [action, setAction] = useState("all");
+  const [actor, setActor] = useState("");
+  const [target, setTarget] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [page, setPage] = useState(1);
+  const limit = 25;
+  const [total, setTotal] = useState(0);
+
+  const filters = {
+    action: action !== "all" ? action : undefined,
+    actor: actor || undefined,
+    target: target || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get("/api/admin/audit", {
+        params: { ...filters, page, limit },
+      });
+      setEntries(res.data.data || []);
+      setTotal(res.data.total || 0);
+      setActions(res.data.actions || []);
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Failed to load audit log.");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action, actor, target, from, to, page]);
+
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+
+  const exportHref = `/api/admin/audit?${new URLSearchParams(
+    Object.entries({ ...filters, format: "csv" }).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    )
+  ).toString()}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="text-gray-600 text-sm">Every change made by an administrator.</p>
+        </div>
+        <a href={exportHref}>
+          <Button variant="outline">Export CSV</Button>
+        </a>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md p-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <Select
+          value={action}
+          onValueChange={(v) => {
+            setAction(v);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {actions.map((a) => (
+              <SelectItem key={a} value={a}>
+                {a}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Admin email"
+          value={actor}
+          onChange={(e) => {
+            setActor(e.target.value);
+            setPage(1);
+          }}
+        />
+        <Input
+          placeholder="Target user ID"
+          inputMode="numeric"
+          value={target}
+          onChange={(e) => {
+            setTarget(e.target.value.replace(/\D/g, ""));
+            setPage(1);
+          }}
+        />
+        <Input
+          type="date"
+          value={from}
+          onChange={(e) => {
+            setFrom(e.target.value);
+            setPage(1);
+          }}
+        />
+        <Input
+          type="date"
+          value={to}
+          onChange={(e) => {
+            setTo(e.target.value);
+            setPage(1);
+          }}
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        {loading ? (
+          <p className="text-center p-6 text-gray-500">Loading audit log...</p>
+        ) : entries.length > 0 ? (
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">When</th>
+                <th className="px-4 py-3">Admin</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">Target</th>
+                <th className="px-4 py-3">Before</th>
+                <th className="px-4 py-3">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.id} className="border-t align-top">
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(e.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3">{e.actorEmail}</td>
+                  <td className="px-4 py-3 font-medium text-gray-900">{e.action}</td>
+                  <td className="px-4 py-3">{e.targetUserId ?? "—"}</td>
+                  <td className="px-4 py-3">
+                    <ChangeList values={e.before} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <ChangeList values={e.after} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center py-12 text-gray-500 text-lg">No audit entries match these filters.</p>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {total > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600 text-sm">
+            Showing {Math.min((page - 1) * limit + 1, total)} – {Math.min(page * limit, total)} of {total}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Prev
+            </Button>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Helper for rendering a before/after snapshot ---
+const ChangeList = ({ values }: { values: Record<string, unknown> | null }) => {
+  if (!values) return <span className="text-gray-400">—</span>;
+
+  return (
+    <ul className="space-y-1 font-mono text-xs break-all">
+      {Object.entries(values).map(([key, value]) => (
+        <li key={key}>
+          <span className="text-gray-500">{key}:</span> {JSON.stringify(value)}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,105 @@
+// app/admin/emails/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface PreviewEmail {
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+}
+
+export default function EmailPreviewPage() {
+  const [templates, setTemplates] = useState<string[]>([]);
+  const [selected, setSelected] = useState("");
+  const [preview, setPreview] = useState<PreviewEmail | null>(null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const res = await axios.get("/api/admin/email-preview");
+        setTemplates(res.data.templates || []);
+        setSelected(res.data.templates?.[0] ?? "");
+      } catch (err) {
+        console.error("Failed to load templates:", err);
+        toast.error("Failed to load email templates.");
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    const fetchPreview = async () => {
+      try {
+        const res = await axios.get("/api/admin/email-preview", {
+          params: { template: selected },
+        });
+        setPreview(res.data);
+      } catch (err) {
+        console.error("Failed to load preview:", err);
+        toast.error("Failed to load preview.");
+      }
+    };
+
+    fetchPreview();
+  }, [selected]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Email Templates</h2>
+        <p className="text-gray-600 text-sm">
+          Preview every transactional email with sample data. Nothing is sent.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 max-w-sm">
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((t) => (
+              <SelectItem key={t} value={t}>
+                {t}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {preview && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow-md p-4 space-y-3">
+            <p className="text-sm">
+              <span className="font-medium text-gray-900">Subject:</span> {preview.subject}
+            </p>
+            <iframe
+              src={`/api/admin/email-preview?template=${selected}&format=html`}
+              title={`${selected} HTML preview`}
+              className="w-full h-[480px] border rounded"
+              sandbox=""
+            />
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <p className="text-sm font-medium text-gray-900 mb-3">Plain-text fallback</p>
+            <pre className="whitespace-pre-wrap text-xs text-gray-700 font-mono">
+              {preview.textContent}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
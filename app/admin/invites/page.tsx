@@ -0,0 +1,302 @@
+// app/admin/invites/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import axios, { isAxiosError } from "axios";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface Invite {
+  id: number;
+  url: string;
+  gradYear: number;
+  branch: string;
+  email?: string | null;
+  maxUses: number;
+  uses: number;
+  expiresAt: string;
+  createdAt: string;
+  state: "active" | "expired" | "revoked" | "used";
+  createdBy: { fullName: string };
+  users: { id: number; fullName: string; email: string; verified: boolean }[];
+}
+
+const STATE_STYLES: Record<Invite["state"], string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-600",
+  revoked: "bg-red-100 text-red-700",
+  used: "bg-blue-100 text-blue-800",
+};
+
+export default function InvitesPage() {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const fetchInvites = async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get("/api/admin/invites");
+      setInvites(res.data.data || []);
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Failed to load invites.");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Invite link copied");
+    } catch {
+      toast.error("Could not copy, please copy the link manually.");
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    setBusyId(id);
+    try {
+      const res = await axios.delete(`/api/admin/invites/${id}`);
+      toast.success(res.data.message);
+      setInvites((prev) => prev.map((i) => (i.id === id ? { ...i, state: "revoked" } : i)));
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to revoke invite.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Invites</h2>
+        <p className="text-gray-600 text-sm">
+          Alumni who register through an invite link skip the proof-document review and are
+          approved once they confirm their email.
+        </p>
+      </div>
+
+      <CreateInviteForm onCreated={fetchInvites} onCopy={copyLink} />
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        {loading ? (
+          <p className="text-center p-6 text-gray-500">Loading invites...</p>
+        ) : invites.length > 0 ? (
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">Batch</th>
+                <th className="px-4 py-3">For</th>
+                <th className="px-4 py-3">Uses</th>
+                <th className="px-4 py-3">Expires</th>
+                <th className="px-4 py-3">Created By</th>
+                <th className="px-4 py-3">Registered</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {invites.map((i) => (
+                <tr key={i.id} className="border-t align-top">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className="font-medium text-gray-900">
+                      {i.branch} {i.gradYear}
+                    </span>
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs ${STATE_STYLES[i.state]}`}>
+                      {i.state}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{i.email || "Anyone with the link"}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {i.uses} / {i.maxUses}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {new Date(i.expiresAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3">{i.createdBy.fullName}</td>
+                  <td className="px-4 py-3">
+                    {i.users.length === 0
+                      ? "—"
+                      : i.users.map((u) => (
+                          <p key={u.id} title={u.email}>
+                            {u.fullName}
+                            {!u.verified && <span className="text-gray-400"> (not approved yet)</span>}
+                          </p>
+                        ))}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap space-x-2">
+                    {i.state === "active" && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => copyLink(i.url)}>
+                          Copy link
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="border-red-500 text-red-600 hover:bg-red-50"
+                          disabled={busyId === i.id}
+                          onClick={() => handleRevoke(i.id)}
+                        >
+                          Revoke
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center py-12 text-gray-500 text-lg">No invites yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- New invite form ---
+function CreateInviteForm({
+  onCreated,
+  onCopy,
+}: {
+  onCreated: () => void;
+  onCopy: (url: string) => void;
+}) {
+  const [gradYear, setGradYear] = useState("");
+  const [branch, setBranch] = useState("");
+  const [email, setEmail] = useState("");
+  const [maxUses, setMaxUses] = useState("1");
+  const [expiresInDays, setExpiresInDays] = useState("14");
+  const [saving, setSaving] = useState(false);
+
+  const years = Array.from({ length: 2030 - 1964 + 1 }, (_, i) => 2030 - i);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!gradYear || !branch) {
+      toast.error("Please choose the batch and branch");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await axios.post("/api/admin/invites", {
+        gradYear: parseInt(gradYear, 10),
+        branch,
+        email: email.trim() || undefined,
+        maxUses: parseInt(maxUses, 10),
+        expiresInDays: parseInt(expiresInDays, 10),
+      });
+      toast.success(res.data.message);
+      onCopy(res.data.url);
+      setEmail("");
+      onCreated();
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to create invite.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-md p-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+    >
+      <div className="space-y-1">
+        <Label>Graduation Year</Label>
+        <Select value={gradYear} onValueChange={setGradYear}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select Year" />
+          </SelectTrigger>
+          <SelectContent className="max-h-[200px]">
+            {years.map((year) => (
+              <SelectItem key={year} value={String(year)}>
+                {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Branch</Label>
+        <Select value={branch} onValueChange={setBranch}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select Department" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Cse">Computer Science</SelectItem>
+            <SelectItem value="Et&t">ET&T</SelectItem>
+            <SelectItem value="Mech">Mechanical</SelectItem>
+            <SelectItem value="Civil">Civil</SelectItem>
+            <SelectItem value="Elec">Electrical</SelectItem>
+            <SelectItem value="Mining">Mining</SelectItem>
+            <SelectItem value="It">IT</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="invite-email">Email (optional)</Label>
+        <Input
+          id="invite-email"
+          type="email"
+          placeholder="Leave empty for a batch link"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="invite-uses">Number of uses</Label>
+        <Input
+          id="invite-uses"
+          type="number"
+          min={1}
+          max={500}
+          disabled={!!email.trim()}
+          value={email.trim() ? "1" : maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="invite-days">Valid for (days)</Label>
+        <Input
+          id="invite-days"
+          type="number"
+          min={1}
+          max={90}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+        />
+      </div>
+
+      <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={saving}>
+        {saving ? "Creating..." : "Create invite link"}
+      </Button>
+    </form>
+  );
+}
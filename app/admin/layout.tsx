@@ -0,0 +1,61 @@
+// app/admin/layout.tsx
+import Image from "next/image";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { adminSections } from "@/lib/admin-sections";
+import { can, permissionsOf } from "@/lib/permissions";
+
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) redirect("/login");
+  if (permissionsOf(session.user).length === 0) redirect("/");
+
+  const sections = adminSections.filter((s) => can(session.user, s.permission));
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 flex justify-between items-center h-16">
+          <div className="flex items-center gap-3">
+            <Link href={"/"} className="cursor-pointer">
+              <Image
+                src="/CollegeLogo.png"
+                alt="Logo"
+                width={48}
+                height={48}
+                className="rounded-md"
+              />
+            </Link>
+            <div>
+              <h1 className="text-lg font-semibold text-gray-900 leading-tight">
+                Admin Dashboard
+              </h1>
+              <p className="text-xs text-gray-500">
+                Government Engineering College Bilaspur
+              </p>
+            </div>
+          </div>
+
+          <nav className="flex space-x-6 text-sm">
+            {sections.map((s) => (
+              <Link key={s.href} href={s.href} className="text-gray-700 hover:text-blue-600 font-medium">
+                {s.label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      <main className="flex-grow w-full max-w-6xl mx-auto p-4 sm:p-8">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+// app/admin/locked-accounts/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import axios, { isAxiosError } from "axios";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+
+interface LockedAccount {
+  id: number;
+  fullName: string;
+  email: string;
+  gradYear: number;
+  branch: string;
+  lockedUntil: string;
+}
+
+export default function LockedAccountsPage() {
+  const [accounts, setAccounts] = useState<LockedAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const fetchAccounts = async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get("/api/admin/locked-accounts");
+      setAccounts(res.data.data || []);
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Failed to load locked accounts.");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const handleUnlock = async (id: number) => {
+    setBusyId(id);
+    try {
+      const res = await axios.delete(`/api/admin/locked-accounts/${id}`);
+      toast.success(res.data.message);
+      setAccounts((prev) => prev.filter((a) => a.id !== id));
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to unlock account.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Locked Accounts</h2>
+        <p className="text-gray-600 text-sm">
+          Sign-in is paused for these accounts after repeated failed attempts.
+          The owner has been emailed and can end the pause by resetting their password.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        {loading ? (
+          <p className="text-center p-6 text-gray-500">Loading locked accounts...</p>
+        ) : accounts.length > 0 ? (
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Email</th>
+                <th className="px-4 py-3">Batch</th>
+                <th className="px-4 py-3">Locked Until</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {accounts.map((a) => (
+                <tr key={a.id} className="border-t">
+                  <td className="px-4 py-3 font-medium text-gray-900">{a.fullName}</td>
+                  <td className="px-4 py-3">{a.email}</td>
+                  <td className="px-4 py-3">
+                    {a.branch} {a.gradYear}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {new Date(a.lockedUntil).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId === a.id}
+                      onClick={() => handleUnlock(a.id)}
+                    >
+                      Unlock
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center py-12 text-gray-500 text-lg">No accounts are locked right now.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// app/admin/page.tsx
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { adminSections } from "@/lib/admin-sections";
+import { can } from "@/lib/permissions";
+
+// Sends staff to the first dashboard page they are allowed to open.
+export default async function AdminIndexPage() {
+  const session = await getServerSession(authOptions);
+  const first = adminSections.find((s) => can(session?.user, s.permission));
+
+  if (first) redirect(first.href);
+
+  return (
+    <p className="text-center text-gray-500 py-12">
+      Your roles do not include any dashboard pages yet.
+    </p>
+  );
+}
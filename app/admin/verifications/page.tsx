@@ -0,0 +1,328 @@
+// app/admin/verifications/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import axios, { isAxiosError } from "axios";
+import toast from "react-hot-toast";
+import ProofPreview from "@/app/components/ProofPreview";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+interface VerificationRequest {
+  id: number;
+  proofPicture: string;
+  status: "pending" | "approved" | "rejected";
+  reason?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  reviewedBy?: { fullName: string } | null;
+}
+
+interface DuplicateSuspect {
+  id: number;
+  reason: "mobile" | "name";
+  match: {
+    id: number;
+    fullName: string;
+    email: string;
+    mobile: string;
+    gradYear: number;
+    branch: string;
+    verified: boolean;
+    verificationStatus: string;
+  };
+}
+
+interface PendingUser {
+  id: number;
+  fullName: string;
+  gradYear: number;
+  branch: string;
+  email: string;
+  mobile: string;
+  organisation: string;
+  designation: string;
+  location?: string | null;
+  proofPicture?: string | null;
+  verificationRequests: VerificationRequest[];
+  duplicateSuspects: DuplicateSuspect[];
+}
+
+export default function VerificationsPage() {
+  const [users, setUsers] = useState<PendingUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        const res = await axios.get("/api/admin/verifications");
+        setUsers(res.data.data || []);
+      } catch (err) {
+        console.error("Failed to load verification queue:", err);
+        toast.error("Failed to load verification queue.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQueue();
+  }, []);
+
+  const handleDecision = async (
+    id: number,
+    action: "approve" | "reject",
+    reason?: string
+  ): Promise<boolean> => {
+    setBusyId(id);
+    try {
+      await axios.post(`/api/admin/verifications/${id}`, { action, reason });
+      setUsers((prev) => prev.filter((u) => u.id !== id));
+      toast.success(action === "approve" ? "Alumnus approved" : "Registration rejected");
+      return true;
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Action failed");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center p-6 text-gray-500 animate-pulse">Loading queue...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Pending Verifications</h2>
+        <p className="text-gray-600 text-sm">
+          Alumni who have verified their email and are waiting for their proof document to be reviewed.
+        </p>
+      </div>
+
+      {users.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md text-center py-12">
+          <p className="text-gray-500 text-lg">No registrations waiting for review.</p>
+        </div>
+      ) : (
+        users.map((user) => (
+          <div key={user.id} className="bg-white rounded-lg shadow-md p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2 text-sm text-gray-700">
+              <h3 className="text-lg font-semibold text-gray-900">{user.fullName}</h3>
+              <p>
+                <span className="font-medium text-gray-900">Branch:</span> {user.branch} •{" "}
+                <span className="font-medium text-gray-900">Class of</span> {user.gradYear}
+              </p>
+              <p>
+                <span className="font-medium text-gray-900">Email:</span> {user.email}
+              </p>
+              <p>
+                <span className="font-medium text-gray-900">Mobile:</span> {user.mobile}
+              </p>
+              <p>
+                <span className="font-medium text-gray-900">Work:</span> {user.designation} • {user.organisation}
+              </p>
+              <p>
+                <span className="font-medium text-gray-900">Location:</span> {user.location || "—"}
+              </p>
+
+              <PossibleDuplicates suspects={user.duplicateSuspects} />
+
+              <div className="flex gap-3 pt-4">
+                <Button
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  disabled={busyId === user.id}
+                  onClick={() => handleDecision(user.id, "approve")}
+                >
+                  Approve
+                </Button>
+                <RejectDialog
+                  user={user}
+                  disabled={busyId === user.id}
+                  onReject={(reason) => handleDecision(user.id, "reject", reason)}
+                />
+              </div>
+
+              <SubmissionHistory requests={user.verificationRequests} />
+            </div>
+
+            <div>
+              {user.proofPicture ? (
+                <>
+                  <ProofPreview
+                    url={user.proofPicture}
+                    title={`Proof document for ${user.fullName}`}
+                  />
+                  <a
+                    href={user.proofPicture}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 underline text-sm mt-2 inline-block"
+                  >
+                    Open full document
+                  </a>
+                </>
+              ) : (
+                <div className="w-full h-80 border rounded flex items-center justify-center text-gray-400">
+                  No proof document uploaded
+                </div>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+// --- Existing accounts that may belong to the same applicant ---
+function PossibleDuplicates({ suspects }: { suspects: DuplicateSuspect[] }) {
+  if (suspects.length === 0) return null;
+
+  return (
+    <div className="mt-4 rounded-md border border-amber-300 bg-amber-50 p-3">
+      <h4 className="font-semibold text-amber-900 mb-2">Possible duplicate accounts</h4>
+      <ul className="space-y-2">
+        {suspects.map((s) => (
+          <li key={s.id} className="text-xs text-amber-900">
+            <p>
+              <span className="font-medium">{s.match.fullName}</span> • {s.match.branch}{" "}
+              {s.match.gradYear} • {s.match.email} • {s.match.mobile}
+            </p>
+            <p className="text-amber-700">
+              {s.reason === "mobile" ? "Same mobile number" : "Similar name, same batch and branch"}
+              {" • "}
+              {s.match.verified ? "verified account" : `status: ${s.match.verificationStatus}`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// --- Submission history for one applicant ---
+function SubmissionHistory({ requests }: { requests: VerificationRequest[] }) {
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="pt-4">
+      <h4 className="font-semibold text-gray-900 mb-2">Submission History</h4>
+      <ol className="space-y-2 border-l-2 border-gray-200 pl-4">
+        {requests.map((r, idx) => (
+          <li key={r.id} className="text-xs text-gray-600">
+            <p>
+              <span className="font-medium text-gray-900">
+                {idx === 0 ? "Submitted" : "Resubmitted"}
+              </span>{" "}
+              {new Date(r.createdAt).toLocaleString()} •{" "}
+              <a
+                href={r.proofPicture}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 underline"
+              >
+                document
+              </a>
+            </p>
+            {r.status !== "pending" && (
+              <p className={r.status === "approved" ? "text-green-700" : "text-red-700"}>
+                {r.status === "approved" ? "Approved" : "Rejected"}
+                {r.reviewedBy ? ` by ${r.reviewedBy.fullName}` : ""}
+                {r.reviewedAt ? ` on ${new Date(r.reviewedAt).toLocaleString()}` : ""}
+                {r.reason ? ` — ${r.reason}` : ""}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// --- Rejection reason dialog ---
+function RejectDialog({
+  user,
+  disabled,
+  onReject,
+}: {
+  user: PendingUser;
+  disabled: boolean;
+  onReject: (reason: string) => Promise<boolean>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim().length < 5) {
+      toast.error("Please give a reason for the rejection");
+      return;
+    }
+    if (await onReject(reason.trim())) {
+      setOpen(false);
+      setReason("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-red-500 text-red-600 hover:bg-red-50"
+          disabled={disabled}
+        >
+          Reject
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="w-[95vw] max-w-lg bg-white p-6 shadow-xl sm:rounded-lg border border-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">
+            Reject {user.fullName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-1">
+            <Label htmlFor={`reason-${user.id}`}>Reason (shown to the alumnus)</Label>
+            <textarea
+              id={`reason-${user.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={4}
+              placeholder="e.g. The uploaded document is unreadable, please upload a clearer scan."
+              className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-red-600 hover:bg-red-700 text-white"
+              disabled={disabled}
+            >
+              Reject Registration
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
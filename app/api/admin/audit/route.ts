@@ -0,0 +1,115 @@
+// app/api/admin/audit/route.ts
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { NextRequest, NextResponse } from "next/server";
+import type { AuditLog, Prisma } from "@prisma/client";
+
+// upper bound for a single CSV export
+const CSV_MAX_ROWS = 10000;
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toCsv(rows: AuditLog[]) {
+  const header = ["id", "createdAt", "actorId", "actorEmail", "action", "targetUserId", "before", "after"];
+  const lines = rows.map((r) =>
+    [
+      r.id,
+      r.createdAt.toISOString(),
+      r.actorId,
+      r.actorEmail,
+      r.action,
+      r.targetUserId,
+      r.before,
+      r.after,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n");
+}
+
+export async function GET(req: NextRequest) {
+  const { error } = await requirePermission("audit:read");
+  if (error) return error;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const page = Math.max(1, Number(searchParams.get("page") ?? 1) || 1);
+    let limit = Math.max(1, Number(searchParams.get("limit") ?? 25) || 25);
+    if (limit > 100) limit = 100;
+
+    const action = searchParams.get("action");
+    const actor = searchParams.get("actor");
+    const targetParam = searchParams.get("target");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (action) where.action = action;
+
+    if (actor && actor.trim() !== "") {
+      where.actorEmail = { contains: actor.trim(), mode: "insensitive" };
+    }
+
+    if (targetParam) {
+      const target = parseInt(targetParam, 10);
+      if (!Number.isNaN(target)) where.targetUserId = target;
+    }
+
+    // date range, `to` is inclusive of the whole day
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (from && !Number.isNaN(Date.parse(from))) createdAt.gte = new Date(from);
+    if (to && !Number.isNaN(Date.parse(to))) {
+      createdAt.lt = new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000);
+    }
+    if (createdAt.gte || createdAt.lt) where.createdAt = createdAt;
+
+    if (searchParams.get("format") === "csv") {
+      const rows = await prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: CSV_MAX_ROWS,
+      });
+
+      return new NextResponse(toCsv(rows), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const [total, entries, actions] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.findMany({
+        distinct: ["action"],
+        select: { action: true },
+        orderBy: { action: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json(
+      { data: entries, total, page, limit, actions: actions.map((a) => a.action) },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("GET /api/admin/audit error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
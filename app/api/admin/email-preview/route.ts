@@ -0,0 +1,42 @@
+// app/api/admin/email-preview/route.ts
+import { EmailTemplateName, templatePreviews } from "@/lib/email-templates";
+import { requirePermission } from "@/lib/session";
+import { NextRequest, NextResponse } from "next/server";
+
+// own keys only, so names like "toString" are unknown templates too
+function isTemplateName(value: string): value is EmailTemplateName {
+  return Object.keys(templatePreviews).includes(value);
+}
+
+// Renders a template with sample data so copy can be checked without
+// sending anything. `format=html` returns the page itself (for an iframe),
+// otherwise subject, html and text come back as JSON.
+export async function GET(req: NextRequest) {
+  const { error } = await requirePermission("emails:preview");
+  if (error) return error;
+
+  const { searchParams } = new URL(req.url);
+  const template = searchParams.get("template");
+
+  if (!template) {
+    return NextResponse.json(
+      { templates: Object.keys(templatePreviews) },
+      { status: 200 }
+    );
+  }
+
+  if (!isTemplateName(template)) {
+    return NextResponse.json({ message: "Unknown template" }, { status: 404 });
+  }
+
+  const email = templatePreviews[template]();
+
+  if (searchParams.get("format") === "html") {
+    return new NextResponse(email.htmlContent, {
+      status: 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  return NextResponse.json(email, { status: 200 });
+}
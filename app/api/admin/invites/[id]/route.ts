@@ -0,0 +1,59 @@
+// app/api/admin/invites/[id]/route.ts
+import { auditEntry } from "@/lib/audit";
+import { hasRole } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { NextRequest, NextResponse } from "next/server";
+
+// Revokes an invite; alumni who already registered through it keep their accounts
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error } = await requirePermission("invites:create");
+  if (error) return error;
+
+  const { id } = await params;
+  const inviteId = parseInt(id, 10);
+
+  if (Number.isNaN(inviteId)) {
+    return NextResponse.json({ message: "Invalid invite id" }, { status: 400 });
+  }
+
+  try {
+    const invite = await prisma.invite.findUnique({ where: { id: inviteId } });
+
+    if (
+      !invite ||
+      (invite.createdById !== session.user.id && !hasRole(session.user, "admin"))
+    ) {
+      return NextResponse.json({ message: "Invite not found" }, { status: 404 });
+    }
+
+    if (invite.revokedAt) {
+      return NextResponse.json({ message: "Invite already revoked" }, { status: 200 });
+    }
+
+    const revokedAt = new Date();
+    await prisma.$transaction([
+      prisma.invite.update({
+        where: { id: inviteId },
+        data: { revokedAt },
+      }),
+      prisma.auditLog.create({
+        data: auditEntry(session.user, "invite.revoke", {
+          before: { inviteId, revokedAt: null },
+          after: { inviteId, revokedAt: revokedAt.toISOString() },
+        }),
+      }),
+    ]);
+
+    return NextResponse.json({ message: "Invite revoked" }, { status: 200 });
+  } catch (err) {
+    console.error("DELETE /api/admin/invites/[id] error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// app/api/admin/invites/route.ts
+import { auditEntry } from "@/lib/audit";
+import { generateInviteToken, inviteState, inviteUrl } from "@/lib/invites";
+import { hasRole } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { inviteCreateSchema } from "@/lib/zod";
+import { NextRequest, NextResponse } from "next/server";
+
+// Invites with the alumni who registered through them. Admins see every
+// invite, coordinators the ones they created.
+export async function GET() {
+  const { session, error } = await requirePermission("invites:create");
+  if (error) return error;
+
+  try {
+    const invites = await prisma.invite.findMany({
+      where: hasRole(session.user, "admin") ? {} : { createdById: session.user.id },
+      orderBy: { createdAt: "desc" },
+      include: {
+        createdBy: { select: { fullName: true } },
+        users: {
+          orderBy: { id: "asc" },
+          select: { id: true, fullName: true, email: true, verified: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        data: invites.map(({ token, ...invite }) => ({
+          ...invite,
+          url: inviteUrl(token),
+          state: inviteState(invite),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("GET /api/admin/invites error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const { session, error } = await requirePermission("invites:create");
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const res = inviteCreateSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { expiresInDays, email, ...invite } = res.data;
+
+  try {
+    // an invite skips proof review, so creating one is logged like any admin change
+    const created = await prisma.$transaction(async (tx) => {
+      const row = await tx.invite.create({
+        data: {
+          ...invite,
+          // a personal invite is for one person only
+          maxUses: email ? 1 : invite.maxUses,
+          email,
+          token: generateInviteToken(),
+          createdById: session.user.id,
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        },
+      });
+      // the token is a credential and stays out of the log
+      await tx.auditLog.create({
+        data: auditEntry(session.user, "invite.create", {
+          after: {
+            inviteId: row.id,
+            gradYear: row.gradYear,
+            branch: row.branch,
+            email: row.email,
+            maxUses: row.maxUses,
+            expiresAt: row.expiresAt.toISOString(),
+          },
+        }),
+      });
+      return row;
+    });
+
+    return NextResponse.json(
+      { message: "Invite created", url: inviteUrl(created.token) },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("POST /api/admin/invites error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
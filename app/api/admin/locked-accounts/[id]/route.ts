@@ -0,0 +1,50 @@
+// app/api/admin/locked-accounts/[id]/route.ts
+import { withAudit } from "@/lib/audit";
+import { clearLoginFailures } from "@/lib/login-guard";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { NextRequest, NextResponse } from "next/server";
+
+// Unlocks an account before its lock runs out
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error } = await requirePermission("users:unlock");
+  if (error) return error;
+
+  const { id } = await params;
+  const userId = parseInt(id, 10);
+
+  if (Number.isNaN(userId)) {
+    return NextResponse.json({ message: "Invalid user id" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+      return NextResponse.json({ message: "Account is not locked" }, { status: 200 });
+    }
+
+    await withAudit(session.user, "user.unlock", () =>
+      prisma.user.update({
+        where: { id: userId },
+        data: { lockedUntil: null },
+      })
+    );
+    await clearLoginFailures(userId);
+
+    return NextResponse.json({ message: "Account unlocked" }, { status: 200 });
+  } catch (err) {
+    console.error("DELETE /api/admin/locked-accounts/[id] error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
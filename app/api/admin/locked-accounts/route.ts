@@ -0,0 +1,34 @@
+// app/api/admin/locked-accounts/route.ts
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { NextResponse } from "next/server";
+
+// Accounts whose password sign-in is currently paused after repeated
+// failed attempts, see lib/login-guard.ts
+export async function GET() {
+  const { error } = await requirePermission("users:unlock");
+  if (error) return error;
+
+  try {
+    const users = await prisma.user.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      orderBy: { lockedUntil: "desc" },
+      select: {
+        id: true,
+        fullName: true,
+        email: true,
+        gradYear: true,
+        branch: true,
+        lockedUntil: true,
+      },
+    });
+
+    return NextResponse.json({ data: users }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/admin/locked-accounts error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/admin/users/[id]/roles/route.ts
+import { withAudit } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { rolesUpdateSchema } from "@/lib/zod";
+import { NextRequest, NextResponse } from "next/server";
+
+// Replaces the full set of roles a user holds.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error } = await requirePermission("users:assign-roles");
+  if (error) return error;
+
+  const { id } = await params;
+  const userId = parseInt(id, 10);
+
+  if (Number.isNaN(userId)) {
+    return NextResponse.json({ message: "Invalid user id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = rolesUpdateSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const roles = [...new Set(res.data.roles)];
+
+  if (
+    userId === session.user.id &&
+    session.user.roles.includes("admin") &&
+    !roles.includes("admin")
+  ) {
+    return NextResponse.json(
+      { message: "You cannot remove your own admin role" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const unchanged =
+      user.roles.length === roles.length &&
+      roles.every((role) => user.roles.includes(role));
+
+    if (unchanged) {
+      return NextResponse.json(
+        { message: "User already has these roles", roles },
+        { status: 200 }
+      );
+    }
+
+    await withAudit(session.user, "user.roles", () =>
+      prisma.user.update({
+        where: { id: userId },
+        data: { roles },
+      })
+    );
+
+    return NextResponse.json(
+      { message: "Roles updated", roles },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("PUT /api/admin/users/[id]/roles error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
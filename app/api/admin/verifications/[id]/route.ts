@@ -0,0 +1,113 @@
+// app/api/admin/verifications/[id]/route.ts
+import { withAudit } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import { requirePermission } from "@/lib/session";
+import { verificationDecisionSchema } from "@/lib/zod";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error } = await requirePermission("verifications:review");
+  if (error) return error;
+
+  const { id } = await params;
+  const userId = parseInt(id, 10);
+
+  if (Number.isNaN(userId)) {
+    return NextResponse.json({ message: "Invalid user id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = verificationDecisionSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const decision = res.data;
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (!user.isEmailVerified) {
+      return NextResponse.json(
+        { message: "User has not verified their email yet" },
+        { status: 409 }
+      );
+    }
+
+    const approved = decision.action === "approve";
+    const status = approved ? "approved" : "rejected";
+    const review = {
+      status,
+      reason: decision.action === "reject" ? decision.reason : null,
+      reviewedById: session.user.id,
+      reviewedAt: new Date(),
+    };
+
+    const pending = await prisma.verificationRequest.findFirst({
+      where: { userId, status: "pending" },
+      orderBy: { createdAt: "desc" },
+    });
+
+    await withAudit(session.user, `verification.${decision.action}`, () =>
+      prisma.$transaction([
+        pending
+          ? prisma.verificationRequest.update({
+              where: { id: pending.id },
+              data: review,
+            })
+          : // Accounts created before the history existed have no open request
+            prisma.verificationRequest.create({
+              data: { ...review, userId, proofPicture: user.proofPicture ?? "" },
+            }),
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            verified: approved,
+            verificationStatus: status,
+          },
+        }),
+      ])
+    );
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...(decision.action === "approve"
+        ? emailTemplates.registrationApproved({
+            name: user.fullName,
+            directoryUrl: appUrl("/Directory"),
+          })
+        : emailTemplates.registrationRejected({
+            name: user.fullName,
+            reason: decision.reason,
+            profileUrl: appUrl("/profile"),
+          })),
+    });
+    if (!sent.ok) {
+      console.error("Verification decision email failed for user", userId);
+    }
+
+    return NextResponse.json(
+      { message: approved ? "User approved" : "User rejected" },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("POST /api/admin/verifications/[id] error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
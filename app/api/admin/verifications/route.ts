@@ -0,0 +1,72 @@
+// app/api/admin/verifications/route.ts
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/session";
+import { NextResponse } from "next/server";
+
+// Lists alumni who confirmed their email but are still waiting for an admin
+// to check their proof document.
+export async function GET() {
+  const { error } = await requirePermission("verifications:review");
+  if (error) return error;
+
+  try {
+    const users = await prisma.user.findMany({
+      where: {
+        isEmailVerified: true,
+        verified: false,
+        verificationStatus: "pending",
+      },
+      orderBy: { id: "asc" },
+      select: {
+        id: true,
+        fullName: true,
+        gradYear: true,
+        branch: true,
+        email: true,
+        mobile: true,
+        organisation: true,
+        designation: true,
+        location: true,
+        proofPicture: true,
+        verificationRequests: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            proofPicture: true,
+            status: true,
+            reason: true,
+            reviewedAt: true,
+            createdAt: true,
+            reviewedBy: { select: { fullName: true } },
+          },
+        },
+        duplicateSuspects: {
+          select: {
+            id: true,
+            reason: true,
+            match: {
+              select: {
+                id: true,
+                fullName: true,
+                email: true,
+                mobile: true,
+                gradYear: true,
+                branch: true,
+                verified: true,
+                verificationStatus: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ data: users }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/admin/verifications error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,32 @@
 // app/api/alumni/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
 import { prisma } from "@/lib/prisma";
+import { applyPrivacy, type Viewer } from "@/lib/privacy";
+import { textSearch } from "@/lib/search";
+import { directoryPage, directoryWhere, type DirectoryFilter } from "@/lib/directory";
+import { directoryFacets } from "@/lib/facets";
 import { NextRequest, NextResponse } from "next/server";
-import type { Prisma } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+
+// `sort` values other than "relevance", which needs a search term
+const SORTS = {
+  name: Prisma.sql`"fullName" ASC, "id" ASC`,
+  batch: Prisma.sql`"gradYear" DESC, "fullName" ASC, "id" ASC`,
+  // accounts from before join dates were recorded come last
+  joined: Prisma.sql`"createdAt" DESC NULLS LAST, "id" DESC`,
+};
+
+type Sort = keyof typeof SORTS | "relevance";
+
+function isSort(value: string | null): value is Sort {
+  return value === "relevance" || (value !== null && Object.keys(SORTS).includes(value));
+}
+
+function intParam(value: string | null) {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
 
 export async function GET(req: NextRequest) {
   try {
@@ -17,48 +42,93 @@ export async function GET(req: NextRequest) {
     // safety cap
     if (limit > 100) limit = 100;
 
-    const yearParam = searchParams.get("year");
-    const departmentParam = searchParams.get("department");
+    // `year` picks one batch, `yearFrom`/`yearTo` a range
+    const year = intParam(searchParams.get("year"));
+    const yearFrom = intParam(searchParams.get("yearFrom")) ?? year;
+    const yearTo = intParam(searchParams.get("yearTo")) ?? year;
+    // several departments are comma separated: department=Cse,It
+    const departments = searchParams
+      .getAll("department")
+      .flatMap((d) => d.split(","))
+      .map((d) => d.trim())
+      .filter((d) => d !== "" && d !== "all");
+    const organisation = searchParams.get("organisation")?.trim();
+    const location = searchParams.get("location")?.trim();
+    const updatedWithin = intParam(searchParams.get("updatedWithin"));
     const search = searchParams.get("search");
+    const sortParam = searchParams.get("sort");
+    const wantFacets = ["1", "true"].includes(searchParams.get("facets") ?? "");
 
-    // Use Prisma's typed where input
-    const where: Prisma.UserWhereInput = {
-      verified: true,
-      isEmailVerified: true,
+    // Approved alumni get the members view, with contact details filtered per
+    // listing by privacy settings; everyone else gets the public view
+    const session = await getServerSession(authOptions);
+    const viewer: Viewer = session?.user?.id
+      ? await prisma.user.findUnique({
+          where: { id: session.user.id },
+          select: { id: true, gradYear: true, verified: true },
+        })
+      : null;
+    const mode = viewer?.verified ? "members" : "public";
+    const members = mode === "members";
+
+    const filter: DirectoryFilter = {
+      yearFrom,
+      yearTo,
+      branches: departments,
+      organisation,
+      location,
+      // profiles edited in the last N days
+      updatedSince:
+        updatedWithin !== undefined && updatedWithin > 0
+          ? new Date(Date.now() - updatedWithin * 24 * 60 * 60 * 1000)
+          : undefined,
     };
 
-    // year filter
-    if (yearParam) {
-      const parsed = parseInt(yearParam, 10);
-      if (!Number.isNaN(parsed)) {
-        where.gradYear = parsed;
-      }
-    }
+    // ranked full-text search, see lib/search.ts
+    const text = search && search.trim() !== "" ? textSearch(search.trim(), viewer, members) : null;
+    const where = directoryWhere(filter, viewer, members, text);
 
-    // department filter (treat "all" / empty as no filter)
-    if (departmentParam && departmentParam !== "all" && departmentParam !== "") {
-      where.branch = departmentParam;
+    // relevance is the default while searching, batch otherwise
+    let sort: Sort = text ? "relevance" : "batch";
+    if (isSort(sortParam) && (sortParam !== "relevance" || text)) {
+      sort = sortParam;
     }
+    // most relevant first, newest batch first among equals
+    const orderBy =
+      sort === "relevance" && text
+        ? Prisma.sql`${text.rank} DESC, "gradYear" DESC, "id" ASC`
+        : SORTS[sort as keyof typeof SORTS];
 
-    // search filter across multiple fields
-    if (search && search.trim() !== "") {
-      where.OR = [
-        { fullName: { contains: search, mode: "insensitive" } },
-        { email: { contains: search, mode: "insensitive" } },
-        { organisation: { contains: search, mode: "insensitive" } },
-        { designation: { contains: search, mode: "insensitive" } },
-      ];
-    }
+    // filtering, ranking and paging all happen in the database; the page is
+    // then loaded by id and put back in that order
+    const [{ ids, total }, facets] = await Promise.all([
+      directoryPage(where, orderBy, page, limit),
+      wantFacets ? directoryFacets(filter, viewer, members, text) : undefined,
+    ]);
+    const pageOrder = (a: { id: number }, b: { id: number }) => ids.indexOf(a.id) - ids.indexOf(b.id);
 
-    // get total matching rows
-    const total = await prisma.user.count({ where });
+    if (mode === "public") {
+      const users = await prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          fullName: true,
+          gradYear: true,
+          branch: true,
+          organisation: true,
+        },
+      });
+      users.sort(pageOrder);
+
+      return NextResponse.json(
+        { data: users, total, page, limit, mode, sort, facets },
+        { status: 200 }
+      );
+    }
 
     // fetch current page (only safe fields)
     const users = await prisma.user.findMany({
-      where,
-      orderBy: { gradYear: "desc" },
-      skip: (page - 1) * limit,
-      take: limit,
+      where: { id: { in: ids } },
       select: {
         id: true,
         fullName: true,
@@ -70,11 +140,15 @@ export async function GET(req: NextRequest) {
         designation: true,
         location: true,
         profilePicture: true,
+        emailVisibility: true,
+        mobileVisibility: true,
+        locationVisibility: true,
       },
     });
+    users.sort(pageOrder);
 
     return NextResponse.json(
-      { data: users, total, page, limit },
+      { data: users.map((u) => applyPrivacy(u, viewer)), total, page, limit, mode, sort, facets },
       { status: 200 }
     );
   } catch (err) {
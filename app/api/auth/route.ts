@@ -1,7 +1,12 @@
 import { prisma } from "@/lib/prisma";
 import { userSchema } from "@/lib/zod";
+import { emailMatch, normaliseEmail } from "@/lib/email-address";
 import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcrypt";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import { findProbableDuplicates } from "@/lib/duplicates";
+import { claimInvite, findActiveInvite, releaseInvite } from "@/lib/invites";
 
 export async function POST(req: NextRequest) {
   try {
@@ -11,13 +16,13 @@ export async function POST(req: NextRequest) {
       fullName,
       gradYear,
       branch,
-      email,
       password,
       mobile,
       organisation,
       designation,
       proofPicture,
-      location
+      location,
+      invite: inviteToken,
     } = data;
 
     // 1. Validate inputs using Zod
@@ -27,21 +32,22 @@ export async function POST(req: NextRequest) {
       fullName,
       gradYear,
       branch,
-      email,
+      email: data.email,
       password,
       mobile, 
       organisation,
       designation,
-      role: "alumni",
       location,
       proofPicture, 
     });
 
     if (res.success) {
+      const { email } = res.data;
+
       // 2. Check if user exists
       const existingUser = await prisma.user.findFirst({
         where: {
-          email,
+          email: emailMatch(email),
         },
       });
 
@@ -52,27 +58,86 @@ export async function POST(req: NextRequest) {
         );
       }
       
+      // An invite vouches for the batch, so its year and branch win over the
+      // form and no proof document is needed
+      const invite =
+        typeof inviteToken === "string" ? await findActiveInvite(inviteToken) : null;
+
+      if (inviteToken && !invite) {
+        return NextResponse.json(
+          { message: "This invite link has expired or is no longer valid" },
+          { status: 410 }
+        );
+      }
+
+      if (invite?.email && normaliseEmail(invite.email) !== email) {
+        return NextResponse.json(
+          { message: "This invite was sent to a different email address" },
+          { status: 403 }
+        );
+      }
+
+      if (invite && !(await claimInvite(invite.id))) {
+        return NextResponse.json(
+          { message: "This invite link has expired or is no longer valid" },
+          { status: 410 }
+        );
+      }
+
+      // Probable second accounts still register, but are flagged so the
+      // reviewer sees them; the response stays the same either way
+      const duplicates = await findProbableDuplicates({
+        fullName,
+        gradYear: invite?.gradYear ?? gradYear,
+        branch: invite?.branch ?? branch,
+        mobile,
+      });
+
       // 3. Hash password
       const hashedPassword = await bcrypt.hash(password, 10);
       
       // 4. Create user
       // Ensure your prisma.schema has 'mobile' set to String type!
-      await prisma.user.create({
+      const created = await prisma.user.create({
         data: {
           email,
           password: hashedPassword,
           fullName,
-          gradYear,
+          gradYear: invite?.gradYear ?? gradYear,
           mobile, // Saving as String to prevent Int overflow
-          branch,
+          branch: invite?.branch ?? branch,
           designation,
           organisation,
-          role: "alumni",
+          roles: ["alumni"],
           proofPicture,
-          location
+          location,
+          // The first proof document opens the user's verification history
+          verificationRequests: proofPicture && !invite
+            ? { create: { proofPicture } }
+            : undefined,
+          inviteId: invite?.id,
+          duplicateSuspects: duplicates.length
+            ? { create: duplicates }
+            : undefined,
         },
+      }).catch(async (err) => {
+        // give the use back so the invitee can try again
+        if (invite) await releaseInvite(invite.id);
+        throw err;
       });
 
+      // a failed confirmation email must not fail the registration itself
+      const sent = await sendEmail({
+        to: { email: created.email, name: created.fullName },
+        ...emailTemplates.registrationReceived({
+          name: created.fullName,
+          verifyUrl: appUrl(`/verify?userId=${created.id}`),
+        }),
+      });
+      if (!sent.ok) {
+        console.error("Registration email failed for user", created.id);
+      }
+
       return NextResponse.json(
         { message: "User signed up successfully" },
         { status: 200 }
@@ -0,0 +1,24 @@
+// app/api/cron/purge-accounts/route.ts
+import { purgeDueAccounts } from "@/lib/account-deletion";
+import { NextRequest, NextResponse } from "next/server";
+
+// Removes accounts whose deletion grace period is over. Called daily by the
+// scheduler in vercel.json, which sends CRON_SECRET as a bearer token.
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeDueAccounts();
+    return NextResponse.json({ purged }, { status: 200 });
+  } catch (error) {
+    console.error("Account purge error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/invites/[token]/route.ts
+import { findActiveInvite } from "@/lib/invites";
+import { NextRequest, NextResponse } from "next/server";
+
+// What the registration form needs to prefill from an invite link
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  try {
+    const invite = await findActiveInvite(token);
+
+    if (!invite) {
+      return NextResponse.json(
+        { message: "This invite link has expired or is no longer valid" },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        data: {
+          gradYear: invite.gradYear,
+          branch: invite.branch,
+          email: invite.email,
+          invitedBy: invite.createdBy.fullName,
+          expiresAt: invite.expiresAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("GET /api/invites/[token] error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
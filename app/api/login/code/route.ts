@@ -0,0 +1,74 @@
+// app/api/login/code/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { emailMatch } from "@/lib/email-address";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import {
+  OTP_TTL_MINUTES,
+  ipSendRetryAfter,
+  issueOtp,
+  recordOtpSend,
+  userSendRetryAfter,
+} from "@/lib/otp";
+import { getClientIp, tooManyRequests } from "@/lib/rate-limit";
+import { loginCodeSchema } from "@/lib/zod";
+
+// Same answer whether or not the email is registered, like /api/password/forgot
+const GENERIC_RESPONSE = {
+  message: "If an account exists for that email, a sign-in code has been sent.",
+};
+
+// Emails a single-use sign-in code and a link carrying it. The code is
+// redeemed through the "email-code" provider in lib/options.ts.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const res = loginCodeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { email } = res.data;
+
+  try {
+    const ip = getClientIp(req);
+    const ipWait = await ipSendRetryAfter(ip);
+    if (ipWait > 0) {
+      return tooManyRequests("Too many codes requested. Please wait before trying again.", ipWait);
+    }
+
+    const user = await prisma.user.findFirst({ where: { email: emailMatch(email) } });
+
+    if (!user || (await userSendRetryAfter(user.id)) > 0) {
+      return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+    }
+
+    const otp = await issueOtp(user.id, "login");
+    await recordOtpSend(user.id, ip);
+
+    const loginLink = appUrl(`/login?${new URLSearchParams({ email, otp })}`);
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...emailTemplates.loginCode({
+        name: user.fullName,
+        code: otp,
+        loginUrl: loginLink,
+        ttlMinutes: OTP_TTL_MINUTES,
+      }),
+    });
+
+    if (!sent.ok) {
+      console.error("Sign-in code email failed for user", user.id);
+    }
+
+    return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+  } catch (err) {
+    console.error("Sign-in code route error:", err);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
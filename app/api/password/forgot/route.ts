@@ -0,0 +1,76 @@
+// app/api/password/forgot/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { emailMatch } from "@/lib/email-address";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import {
+  OTP_TTL_MINUTES,
+  ipSendRetryAfter,
+  issueOtp,
+  recordOtpSend,
+  userSendRetryAfter,
+} from "@/lib/otp";
+import { getClientIp, tooManyRequests } from "@/lib/rate-limit";
+import { forgotPasswordSchema } from "@/lib/zod";
+
+// Same answer whether or not the email is registered, so this endpoint
+// can't be used to find out who has an account.
+const GENERIC_RESPONSE = {
+  message: "If an account exists for that email, a reset code has been sent.",
+};
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const res = forgotPasswordSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { email } = res.data;
+
+  try {
+    // the IP limit applies before the lookup, so hitting it says nothing about the account
+    const ip = getClientIp(req);
+    const ipWait = await ipSendRetryAfter(ip);
+    if (ipWait > 0) {
+      return tooManyRequests("Too many reset requests. Please wait before trying again.", ipWait);
+    }
+
+    const user = await prisma.user.findFirst({ where: { email: emailMatch(email) } });
+
+    // an account over its own cooldown is skipped silently for the same reason
+    if (!user || (await userSendRetryAfter(user.id)) > 0) {
+      return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+    }
+
+    // the emailed link carries the same code
+    const otp = await issueOtp(user.id, "password-reset");
+    await recordOtpSend(user.id, ip);
+
+    const resetLink = appUrl(`/forgot-password?${new URLSearchParams({ email, code: otp })}`);
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...emailTemplates.passwordReset({
+        name: user.fullName,
+        code: otp,
+        resetUrl: resetLink,
+        ttlMinutes: OTP_TTL_MINUTES,
+      }),
+    });
+
+    if (!sent.ok) {
+      console.error("Password reset email failed for user", user.id);
+    }
+
+    return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+  } catch (err) {
+    console.error("Forgot password route error:", err);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
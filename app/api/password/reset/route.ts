@@ -0,0 +1,56 @@
+// app/api/password/reset/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcrypt";
+import { prisma } from "@/lib/prisma";
+import { emailMatch } from "@/lib/email-address";
+import { checkOtp } from "@/lib/otp";
+import { revokeSessions } from "@/lib/sessions";
+import { clearLoginFailures } from "@/lib/login-guard";
+import { passwordResetSchema } from "@/lib/zod";
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const res = passwordResetSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { email, otp, password } = res.data;
+
+  try {
+    const user = await prisma.user.findFirst({ where: { email: emailMatch(email) } });
+    const result = user ? await checkOtp(user.id, "password-reset", otp) : null;
+
+    // one message for every failure (including a code locked after too many
+    // guesses) so this endpoint can't be used to probe accounts
+    if (!user || result?.status !== "ok") {
+      return NextResponse.json(
+        { message: "Invalid or expired reset code. Request a new code if it keeps failing." },
+        { status: 401 }
+      );
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        // a new password also ends a failed-login lock
+        data: { password: hashedPassword, lockedUntil: null },
+      }),
+      // signs out every device, see the jwt callback in lib/options.ts
+      revokeSessions(user.id),
+      prisma.otp.deleteMany({ where: { userId: user.id, purpose: "password-reset" } }),
+    ]);
+    await clearLoginFailures(user.id);
+
+    return NextResponse.json({ message: "Password reset successfully" }, { status: 200 });
+  } catch (err) {
+    console.error("Password reset route error:", err);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
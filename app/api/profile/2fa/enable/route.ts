@@ -0,0 +1,59 @@
+// app/api/profile/2fa/enable/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { generateRecoveryCodes, verifyTotp } from "@/lib/totp";
+import { twoFactorCodeSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Confirms the authenticator app works and switches two-factor
+// authentication on. The recovery codes are returned this once only.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = twoFactorCodeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user?.twoFactorSecret || user.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Start the setup again" },
+        { status: 409 }
+      );
+    }
+
+    if (!verifyTotp(user.twoFactorSecret, res.data.code)) {
+      return NextResponse.json({ message: "Invalid authentication code" }, { status: 401 });
+    }
+
+    const { codes, hashes } = await generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true, twoFactorRecoveryCodes: hashes },
+    });
+
+    return NextResponse.json(
+      { message: "Two-factor authentication is on", recoveryCodes: codes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("2FA enable error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/profile/2fa/recovery-codes/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { recordHit, retryAfter, tooManyRequests } from "@/lib/rate-limit";
+import {
+  generateRecoveryCodes,
+  verifySecondFactor,
+  WRONG_CODE_LIMITS,
+  wrongCodeKey,
+} from "@/lib/totp";
+import { twoFactorCodeSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Replaces every recovery code with a new set, e.g. after using a few.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = twoFactorCodeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const limitKey = wrongCodeKey(session.user.id);
+
+  try {
+    const wait = await retryAfter(limitKey, WRONG_CODE_LIMITS);
+    if (wait > 0) {
+      return tooManyRequests("Too many wrong codes. Please try again later.", wait);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user?.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is not on" },
+        { status: 409 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, res.data.code))) {
+      await recordHit(limitKey);
+      return NextResponse.json({ message: "Invalid authentication code" }, { status: 401 });
+    }
+
+    const { codes, hashes } = await generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: hashes },
+    });
+
+    return NextResponse.json({ recoveryCodes: codes }, { status: 200 });
+  } catch (error) {
+    console.error("2FA recovery codes error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
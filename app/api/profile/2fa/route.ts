@@ -0,0 +1,127 @@
+// app/api/profile/2fa/route.ts
+import { getServerSession } from "next-auth";
+import QRCode from "qrcode";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { hasRole } from "@/lib/permissions";
+import { recordHit, retryAfter, tooManyRequests } from "@/lib/rate-limit";
+import {
+  generateTotpSecret,
+  totpUri,
+  verifySecondFactor,
+  WRONG_CODE_LIMITS,
+  wrongCodeKey,
+} from "@/lib/totp";
+import { twoFactorCodeSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Starts enrollment: stores a fresh secret (not yet active) and returns it as
+// a QR code for the authenticator app. POST /enable switches it on.
+export async function POST() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is already on" },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret },
+    });
+
+    const uri = totpUri(secret, user.email);
+    const qrCode = await QRCode.toDataURL(uri);
+
+    return NextResponse.json({ secret, uri, qrCode }, { status: 200 });
+  } catch (error) {
+    console.error("2FA setup error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Turns two-factor authentication off after one more code. Admins must keep it.
+export async function DELETE(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = twoFactorCodeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const limitKey = wrongCodeKey(session.user.id);
+
+  try {
+    const wait = await retryAfter(limitKey, WRONG_CODE_LIMITS);
+    if (wait > 0) {
+      return tooManyRequests("Too many wrong codes. Please try again later.", wait);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user?.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is not on" },
+        { status: 409 }
+      );
+    }
+
+    if (hasRole(user, "admin")) {
+      return NextResponse.json(
+        { message: "Admin accounts must keep two-factor authentication on" },
+        { status: 403 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, res.data.code))) {
+      await recordHit(limitKey);
+      return NextResponse.json({ message: "Invalid authentication code" }, { status: 401 });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+
+    return NextResponse.json(
+      { message: "Two-factor authentication turned off" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("2FA disable error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+// app/api/profile/deletion/confirm/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import { deletionDate } from "@/lib/account-deletion";
+import { checkOtp, userSendRetryAfter } from "@/lib/otp";
+import { tooManyRequests } from "@/lib/rate-limit";
+import { revokeSessions } from "@/lib/sessions";
+import { accountDeletionConfirmSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Schedules the account for deletion once the emailed code is confirmed.
+// The profile leaves the directory now; the data goes when the grace period ends.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = accountDeletionConfirmSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const result = await checkOtp(user.id, "account-deletion", res.data.otp);
+
+    if (result.status === "missing" || result.status === "expired") {
+      return NextResponse.json({ message: "Code expired, request a new one" }, { status: 401 });
+    }
+    if (result.status === "locked") {
+      return tooManyRequests(
+        "Too many wrong attempts. Please request a new code.",
+        await userSendRetryAfter(user.id)
+      );
+    }
+    if (result.status === "wrong") {
+      return NextResponse.json(
+        { message: `Wrong code, ${result.attemptsLeft} attempt(s) left`, attemptsLeft: result.attemptsLeft },
+        { status: 401 }
+      );
+    }
+
+    const deleteOn = deletionDate();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { deletionScheduledFor: deleteOn },
+      }),
+      prisma.otp.deleteMany({ where: { userId: user.id, purpose: "account-deletion" } }),
+      revokeSessions(user.id, session.sessionId),
+    ]);
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...emailTemplates.accountDeletionScheduled({
+        name: user.fullName,
+        deleteOn: deleteOn.toLocaleDateString("en-IN", { dateStyle: "long" }),
+        profileUrl: appUrl("/profile"),
+      }),
+    });
+    if (!sent.ok) {
+      console.error("Account deletion notice failed for user", user.id);
+    }
+
+    return NextResponse.json(
+      { message: "Account scheduled for deletion", deletionScheduledFor: deleteOn },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Account deletion confirm error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+// app/api/profile/deletion/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mail";
+import { emailTemplates } from "@/lib/email-templates";
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@/lib/account-deletion";
+import {
+  OTP_TTL_MINUTES,
+  ipSendRetryAfter,
+  issueOtp,
+  recordOtpSend,
+  userSendRetryAfter,
+} from "@/lib/otp";
+import { getClientIp, tooManyRequests } from "@/lib/rate-limit";
+import { NextResponse } from "next/server";
+
+const TOO_MANY = "Too many codes requested. Please wait before trying again.";
+
+// Starts account deletion by emailing a confirmation code. Nothing changes
+// until the code is confirmed at /api/profile/deletion/confirm.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (user.deletionScheduledFor) {
+      return NextResponse.json(
+        { message: "Your account is already scheduled for deletion" },
+        { status: 409 }
+      );
+    }
+
+    const ip = getClientIp(req);
+    const ipWait = await ipSendRetryAfter(ip);
+    if (ipWait > 0) return tooManyRequests(TOO_MANY, ipWait);
+
+    const userWait = await userSendRetryAfter(user.id);
+    if (userWait > 0) return tooManyRequests(TOO_MANY, userWait);
+
+    const otp = await issueOtp(user.id, "account-deletion");
+    const retryAfter = await recordOtpSend(user.id, ip);
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...emailTemplates.accountDeletionCode({
+        name: user.fullName,
+        code: otp,
+        ttlMinutes: OTP_TTL_MINUTES,
+        graceDays: ACCOUNT_DELETION_GRACE_DAYS,
+      }),
+    });
+
+    if (!sent.ok) {
+      return NextResponse.json(
+        { message: "Failed to send confirmation email", detail: sent.detail, retryAfter },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: `Code sent to ${user.email}`, retryAfter },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Account deletion request error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancels a scheduled deletion during the grace period
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { deletionScheduledFor: null },
+      }),
+      prisma.otp.deleteMany({
+        where: { userId: session.user.id, purpose: "account-deletion" },
+      }),
+    ]);
+
+    return NextResponse.json({ message: "Account deletion cancelled" }, { status: 200 });
+  } catch (error) {
+    console.error("Account deletion cancel error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
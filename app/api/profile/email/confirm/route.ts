@@ -0,0 +1,104 @@
+// app/api/profile/email/confirm/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { emailMatch } from "@/lib/email-address";
+import { sendEmail } from "@/lib/mail";
+import { emailTemplates } from "@/lib/email-templates";
+import { checkOtp, userSendRetryAfter } from "@/lib/otp";
+import { tooManyRequests } from "@/lib/rate-limit";
+import { emailChangeConfirmSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Swaps in the pending email once its code is confirmed and tells both
+// addresses. The session picks up the new email in the jwt callback.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = emailChangeConfirmSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user?.pendingEmail) {
+      return NextResponse.json(
+        { message: "No email change in progress" },
+        { status: 409 }
+      );
+    }
+
+    const result = await checkOtp(user.id, "email-change", res.data.otp);
+
+    if (result.status === "missing" || result.status === "expired") {
+      return NextResponse.json({ message: "Code expired, request a new one" }, { status: 401 });
+    }
+    if (result.status === "locked") {
+      return tooManyRequests(
+        "Too many wrong attempts. Please request a new code.",
+        await userSendRetryAfter(user.id)
+      );
+    }
+    if (result.status === "wrong") {
+      return NextResponse.json(
+        { message: `Wrong code, ${result.attemptsLeft} attempt(s) left`, attemptsLeft: result.attemptsLeft },
+        { status: 401 }
+      );
+    }
+
+    const newEmail = user.pendingEmail;
+
+    // someone may have registered the address since the code was sent
+    const taken = await prisma.user.findFirst({
+      where: { email: emailMatch(newEmail), NOT: { id: user.id } },
+    });
+    if (taken) {
+      return NextResponse.json(
+        { message: "User with given email already exists" },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { email: newEmail, pendingEmail: null },
+      }),
+      prisma.otp.deleteMany({ where: { userId: user.id, purpose: "email-change" } }),
+    ]);
+
+    const notice = emailTemplates.emailChanged({
+      name: user.fullName,
+      oldEmail: user.email,
+      newEmail,
+    });
+    for (const address of [user.email, newEmail]) {
+      const sent = await sendEmail({ to: { email: address, name: user.fullName }, ...notice });
+      if (!sent.ok) {
+        console.error("Email changed notification failed for user", user.id);
+      }
+    }
+
+    return NextResponse.json(
+      { message: "Email updated", email: newEmail },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Email change confirm error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+// app/api/profile/email/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { emailMatch, normaliseEmail } from "@/lib/email-address";
+import { sendEmail } from "@/lib/mail";
+import { emailTemplates } from "@/lib/email-templates";
+import {
+  OTP_TTL_MINUTES,
+  ipSendRetryAfter,
+  issueOtp,
+  recordOtpSend,
+  userSendRetryAfter,
+} from "@/lib/otp";
+import { getClientIp, tooManyRequests } from "@/lib/rate-limit";
+import { emailChangeSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+const TOO_MANY = "Too many codes requested. Please wait before trying again.";
+
+// Starts an email change: the new address is stored as pendingEmail and
+// gets a code. The current address keeps working until the code is confirmed.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = emailChangeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { newEmail } = res.data;
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (newEmail === normaliseEmail(user.email)) {
+      return NextResponse.json(
+        { message: "That is already your email" },
+        { status: 400 }
+      );
+    }
+
+    const taken = await prisma.user.findFirst({
+      where: { email: emailMatch(newEmail) },
+    });
+    if (taken) {
+      return NextResponse.json(
+        { message: "User with given email already exists" },
+        { status: 400 }
+      );
+    }
+
+    const ip = getClientIp(req);
+    const ipWait = await ipSendRetryAfter(ip);
+    if (ipWait > 0) return tooManyRequests(TOO_MANY, ipWait);
+
+    const userWait = await userSendRetryAfter(user.id);
+    if (userWait > 0) return tooManyRequests(TOO_MANY, userWait);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { pendingEmail: newEmail },
+    });
+
+    const otp = await issueOtp(user.id, "email-change");
+    const retryAfter = await recordOtpSend(user.id, ip);
+
+    const sent = await sendEmail({
+      to: { email: newEmail, name: user.fullName },
+      ...emailTemplates.emailChange({
+        name: user.fullName,
+        code: otp,
+        newEmail,
+        ttlMinutes: OTP_TTL_MINUTES,
+      }),
+    });
+
+    if (!sent.ok) {
+      return NextResponse.json(
+        { message: "Failed to send confirmation email", detail: sent.detail, retryAfter },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: `Code sent to ${newEmail}`, pendingEmail: newEmail, retryAfter },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Email change error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Abandons a pending change
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { pendingEmail: null },
+      }),
+      prisma.otp.deleteMany({
+        where: { userId: session.user.id, purpose: "email-change" },
+      }),
+    ]);
+
+    return NextResponse.json({ message: "Email change cancelled" }, { status: 200 });
+  } catch (error) {
+    console.error("Email change cancel error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/profile/export/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { buildDataExport } from "@/lib/data-export";
+import { NextResponse } from "next/server";
+
+// "Download my data": everything stored about the signed-in user as a JSON file
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const data = await buildDataExport(session.user.id);
+
+    if (!data) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="gec-alumni-data-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Data export error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
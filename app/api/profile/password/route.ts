@@ -0,0 +1,87 @@
+// app/api/profile/password/route.ts
+import { getServerSession } from "next-auth";
+import bcrypt from "bcrypt";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import { recordHit, retryAfter, tooManyRequests } from "@/lib/rate-limit";
+import { revokeSessions } from "@/lib/sessions";
+import { passwordChangeSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Wrong current passwords allowed before the form is locked for a while
+const WRONG_PASSWORD_LIMITS = [{ max: 5, windowSeconds: 15 * 60 }];
+
+// Changes the password of the signed-in user. Every other device is signed
+// out and the owner is told by email.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = passwordChangeSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  const { currentPassword, newPassword } = res.data;
+  const limitKey = `password-change:${session.user.id}`;
+
+  try {
+    const wait = await retryAfter(limitKey, WRONG_PASSWORD_LIMITS);
+    if (wait > 0) {
+      return tooManyRequests("Too many wrong attempts. Please try again later.", wait);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      await recordHit(limitKey);
+      return NextResponse.json(
+        { message: "Current password is incorrect" },
+        { status: 401 }
+      );
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { password: hashedPassword },
+      }),
+      revokeSessions(user.id, session.sessionId),
+    ]);
+
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...emailTemplates.passwordChanged({
+        name: user.fullName,
+        resetUrl: appUrl("/forgot-password"),
+      }),
+    });
+    if (!sent.ok) {
+      console.error("Password changed email failed for user", user.id);
+    }
+
+    return NextResponse.json({ message: "Password changed" }, { status: 200 });
+  } catch (error) {
+    console.error("Password change error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
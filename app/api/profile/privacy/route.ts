@@ -0,0 +1,40 @@
+// app/api/profile/privacy/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { privacySchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Sets who can see the signed-in user's contact details in the directory
+export async function PUT(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = privacySchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  try {
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: res.data,
+    });
+
+    return NextResponse.json({ message: "Privacy settings saved" }, { status: 200 });
+  } catch (err) {
+    console.error("PUT /api/profile/privacy error:", err);
+    return NextResponse.json(
+      { message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
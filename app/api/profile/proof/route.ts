@@ -0,0 +1,66 @@
+// app/api/profile/proof/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { proofResubmissionSchema } from "@/lib/zod";
+import { NextResponse } from "next/server";
+
+// Lets an alumnus whose registration was rejected upload a new proof
+// document, which puts them back in the admin verification queue.
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const res = proofResubmissionSchema.safeParse(body);
+
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 411 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    });
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    if (user.verificationStatus !== "rejected") {
+      return NextResponse.json(
+        { message: "Only rejected registrations can be resubmitted" },
+        { status: 409 }
+      );
+    }
+
+    const { proofPicture } = res.data;
+
+    await prisma.$transaction([
+      prisma.verificationRequest.create({
+        data: { userId: user.id, proofPicture },
+      }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: { proofPicture, verificationStatus: "pending" },
+      }),
+    ]);
+
+    return NextResponse.json(
+      { message: "Document resubmitted for review" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Proof resubmission error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -13,7 +13,22 @@ export async function GET() {
 
   try {
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
+      where: { id: session.user.id },
+      // secrets stay on the server; 2FA state is exposed as twoFactorEnabled
+      omit: { password: true, twoFactorSecret: true, twoFactorRecoveryCodes: true },
+      include: {
+        verificationRequests: {
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            proofPicture: true,
+            status: true,
+            reason: true,
+            reviewedAt: true,
+            createdAt: true,
+          },
+        },
+      },
     });
     
     return NextResponse.json(user);
@@ -37,7 +52,9 @@ export async function PUT(req: Request) {
     const { organisation, designation, location, profilePicture } = body;
 
     const updated = await prisma.user.update({
-      where: { email: session.user.email },
+      where: { id: session.user.id },
+      // same as GET: secrets never leave the server
+      omit: { password: true, twoFactorSecret: true, twoFactorRecoveryCodes: true },
       data: {
         // Use the specific fields. 
         // Using '?? null' ensures if frontend sends undefined, we save null (or keep it as is depending on logic, but usually null for clearing)
@@ -45,6 +62,8 @@ export async function PUT(req: Request) {
         designation: designation ?? null,
         location: location ?? null,
         profilePicture: profilePicture ?? null,
+        // drives the directory's "updated recently" filter
+        profileUpdatedAt: new Date(),
       },
     });
 
@@ -0,0 +1,38 @@
+// app/api/profile/sessions/[id]/route.ts
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+// Signs out one device; it is dropped on its next request
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { count } = await prisma.loginSession.updateMany({
+      where: { id, userId: session.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ message: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Device signed out" }, { status: 200 });
+  } catch (error) {
+    console.error("Session revoke error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
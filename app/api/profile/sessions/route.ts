@@ -0,0 +1,69 @@
+// app/api/profile/sessions/route.ts
+import { getServerSession } from "next-auth";
+import { SESSION_MAX_AGE, authOptions } from "@/lib/options";
+import { prisma } from "@/lib/prisma";
+import { describeDevice, revokeSessions } from "@/lib/sessions";
+import { NextResponse } from "next/server";
+
+// Devices currently signed in to this account, most recently used first
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sessions = await prisma.loginSession.findMany({
+      where: {
+        userId: session.user.id,
+        revokedAt: null,
+        // older ones have expired on their own
+        lastSeenAt: { gte: new Date(Date.now() - SESSION_MAX_AGE * 1000) },
+      },
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    return NextResponse.json(
+      sessions.map((s) => ({
+        id: s.id,
+        device: describeDevice(s.userAgent),
+        ip: s.ip,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        current: s.id === session.sessionId,
+      })),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Sessions list error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Signs out every other device
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await revokeSessions(session.user.id, session.sessionId);
+
+    return NextResponse.json(
+      { message: count === 1 ? "Signed out 1 other device" : `Signed out ${count} other devices` },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Sessions revoke error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
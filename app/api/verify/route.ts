@@ -1,39 +1,79 @@
 import { NextRequest, NextResponse } from "next/server";
-import bcrypt from "bcrypt";
 import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mail";
+import { appUrl, emailTemplates } from "@/lib/email-templates";
+import { checkOtp, userSendRetryAfter } from "@/lib/otp";
+import { tooManyRequests } from "@/lib/rate-limit";
+import { emailVerificationSchema } from "@/lib/zod";
 
 export async function POST(req: NextRequest) {
-  const { otp, userId } = await req.json();
+  const body = await req.json().catch(() => ({}));
+  const res = emailVerificationSchema.safeParse(body);
+
+  // without a valid userId the lookup would match any user's code
+  if (!res.success) {
+    return NextResponse.json(
+      { message: "Invalid input format", errors: res.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { otp, userId } = res.data;
 
   try {
-    const otpData = await prisma.otp.findFirst({
-        where:{
-            userId
-        }
-    });
-    if(!otpData){
+    const result = await checkOtp(userId, "email-verification", otp);
+
+    if(result.status === "missing"){
         return NextResponse.json({"message" : "OTP for this user doesn't exist"} , {status : 401});
     }
-    if(otpData?.expires < new Date(Date.now())){
+    if(result.status === "expired"){
         return NextResponse.json({"message" : "OTP expired"} , {status : 401});
     }
-    const compare = await bcrypt.compare(otp , otpData.otp);
-    if(!compare){
-        return NextResponse.json({"message" : "Wrong OTP"} , {status : 401});
+    if(result.status === "locked"){
+        // the code is burnt; tell the client when it may ask for a new one
+        return tooManyRequests(
+          "Too many wrong attempts. Please request a new OTP.",
+          await userSendRetryAfter(userId)
+        );
     }
-    await prisma.user.update({
+    if(result.status === "wrong"){
+        return NextResponse.json({"message" : `Wrong OTP, ${result.attemptsLeft} attempt(s) left` , attemptsLeft : result.attemptsLeft} , {status : 401});
+    }
+    // Invited alumni are approved as soon as their email is confirmed, unless
+    // registration flagged them as a possible duplicate
+    const pending = await prisma.user.findUnique({
+        where:{ id:userId },
+        select:{ inviteId : true, _count : { select : { duplicateSuspects : true } } }
+    });
+    const preApproved = !!pending?.inviteId && pending._count.duplicateSuspects === 0;
+
+    const user = await prisma.user.update({
         where:{
             id:userId
         },
         data:{
-            isEmailVerified : true
+            isEmailVerified : true,
+            ...(preApproved && { verified : true, verificationStatus : "approved" })
         }
     });
     await prisma.otp.deleteMany({
       where:{
-        userId
+        userId,
+        purpose : "email-verification"
       }
     })
+    const sent = await sendEmail({
+      to: { email: user.email, name: user.fullName },
+      ...(preApproved
+        ? emailTemplates.registrationApproved({
+            name: user.fullName,
+            directoryUrl: appUrl("/Directory"),
+          })
+        : emailTemplates.emailVerified({ name: user.fullName })),
+    });
+    if(!sent.ok){
+      console.error("Email verified notification failed for user", user.id);
+    }
     return NextResponse.json({"message" : "Email verified successfully"} , {status:200});
   } catch (error) {
     console.log(error);
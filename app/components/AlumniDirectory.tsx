@@ -4,6 +4,8 @@ import { useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import axios from "axios";
+import { useSession } from "next-auth/react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 
 import {
   Select,
@@ -15,49 +17,129 @@ import {
 
 import { Button } from "@/components/ui/button";
 
+// The public view only has name, batch, branch and organisation
 interface AlumniData {
   id: number;
   fullName: string;
   gradYear: number;
   branch: string;
-  email: string;
-  mobile: string;
   organisation: string;
-  designation: string;
+  // null when the alumnus keeps it from this viewer
+  email?: string | null;
+  mobile?: string | null;
+  designation?: string;
   location?: string | null;
   profilePicture?: string | null;
 }
 
+interface FacetCount<T> {
+  value: T;
+  count: number;
+}
+
+interface Facets {
+  branch: FacetCount<string>[];
+  gradYear: FacetCount<number>[];
+  location: FacetCount<string>[];
+  organisation: FacetCount<string>[];
+}
+
+const DEPARTMENTS = [
+  { value: "Cse", label: "Computer Science" },
+  { value: "Et&t", label: "ET&T" },
+  { value: "Mech", label: "Mechanical" },
+  { value: "Civil", label: "Civil" },
+  { value: "Elec", label: "Electrical" },
+  { value: "Mining", label: "Mining" },
+  { value: "It", label: "IT" },
+];
+
+const UPDATED_WITHIN = [
+  { days: 7, label: "Updated this week" },
+  { days: 30, label: "Updated this month" },
+  { days: 90, label: "Updated in 3 months" },
+  { days: 365, label: "Updated this year" },
+];
+
+// Listings behind one Select option, 0 when the API returned none
+function countOf<T>(facet: FacetCount<T>[] | undefined, value: T) {
+  return facet?.find((f) => f.value === value)?.count ?? 0;
+}
+
 export default function AlumniDirectory() {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterYear, setFilterYear] = useState("");
-  const [filterDepartment, setFilterDepartment] = useState("all");
+  // Every filter lives in the query string, so a filtered view can be
+  // bookmarked or shared; the API takes the same parameter names
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+  const param = (key: string) => searchParams.get(key) ?? "";
+
+  const yearFrom = param("yearFrom") || param("year");
+  const yearTo = param("yearTo") || param("year");
+  const departments = param("department").split(",").filter(Boolean);
+  const updatedWithin = param("updatedWithin");
+  const page = Math.max(1, parseInt(param("page"), 10) || 1);
+
+  // typed filters reach the URL once the user pauses
+  const [searchTerm, setSearchTerm] = useState(param("search"));
+  const [organisation, setOrganisation] = useState(param("organisation"));
+  const [location, setLocation] = useState(param("location"));
 
   const [data, setData] = useState<AlumniData[]>([]);
+  const [mode, setMode] = useState<"public" | "members">("public");
+  const [sort, setSort] = useState("batch");
+  const [facets, setFacets] = useState<Facets | null>(null);
   const [loading, setLoading] = useState(false);
+  const { status } = useSession();
 
-  const [page, setPage] = useState(1);
   const limit = 10;
   const [total, setTotal] = useState(0);
 
   // Generate years from 2030 down to 1968
   const years = Array.from({ length: 2030 - 1968 + 1 }, (_, i) => 2030 - i);
 
+  // Empty values drop the parameter; any filter change starts again at page 1.
+  // Reads the live URL, since a debounced call may run after another update.
+  const updateQuery = (changes: Record<string, string>, keepPage = false) => {
+    const next = new URLSearchParams(window.location.search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!keepPage) next.delete("page");
+    const qs = next.toString();
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  };
+
+  useEffect(() => {
+    const typed = {
+      search: searchTerm.trim(),
+      organisation: organisation.trim(),
+      location: location.trim(),
+    };
+    if (Object.entries(typed).every(([key, value]) => value === param(key))) return;
+    const timer = setTimeout(() => updateQuery(typed), 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm, organisation, location]);
+
   const fetchAlumni = async () => {
     setLoading(true);
     try {
       const res = await axios.get("/api/alumni", {
         params: {
-          search: searchTerm || undefined,
-          year: filterYear || undefined,
-          department: filterDepartment || undefined,
-          page,
+          ...Object.fromEntries(searchParams),
           limit,
+          facets: 1,
         },
       });
 
       setData(res.data.data || []);
       setTotal(res.data.total || 0);
+      setMode(res.data.mode === "members" ? "members" : "public");
+      setSort(res.data.sort || "batch");
+      setFacets(res.data.facets ?? null);
     } catch (error) {
       console.error("Fetch Error:", error);
     }
@@ -67,17 +149,30 @@ export default function AlumniDirectory() {
   useEffect(() => {
     fetchAlumni();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchTerm, filterYear, filterDepartment, page]);
+  }, [query]);
 
   const totalPages = Math.max(1, Math.ceil(total / limit));
 
   const gotoPage = (p: number) => {
     if (p < 1) p = 1;
     if (p > totalPages) p = totalPages;
-    setPage(p);
+    updateQuery({ page: p > 1 ? String(p) : "" }, true);
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
+  const toggleDepartment = (value: string) => {
+    const next = departments.includes(value)
+      ? departments.filter((d) => d !== value)
+      : [...departments, value];
+    updateQuery({ department: next.join(",") });
+  };
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setOrganisation("");
+    setLocation("");
+    router.replace(pathname, { scroll: false });
+  };
   return (
     <div className="bg-gray-50 min-h-screen">
       {/* Header */}
@@ -132,60 +227,167 @@ export default function AlumniDirectory() {
             {/* Search Input */}
             <input
               type="text"
-              placeholder="Search by name, email, company..."
+              placeholder={mode === "members" ? "Search by name, email, company..." : "Search by name or company..."}
               value={searchTerm}
-              onChange={(e) => {
-                setSearchTerm(e.target.value);
-                setPage(1);
-              }}
+              onChange={(e) => setSearchTerm(e.target.value)}
               className="md:col-span-2 px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
 
-            {/* Year Select Dropdown */}
+            {/* Sort */}
+            <Select value={sort} onValueChange={(v) => updateQuery({ sort: v })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {param("search") && <SelectItem value="relevance">Best match</SelectItem>}
+                <SelectItem value="batch">Batch (newest first)</SelectItem>
+                <SelectItem value="name">Name (A–Z)</SelectItem>
+                <SelectItem value="joined">Recently joined</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {/* Updated recently */}
             <Select
-              value={filterYear ? filterYear : "all"}
-              onValueChange={(v) => {
-                setFilterYear(v === "all" ? "" : v);
-                setPage(1);
-              }}
+              value={updatedWithin || "any"}
+              onValueChange={(v) => updateQuery({ updatedWithin: v === "any" ? "" : v })}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Graduation Year" />
+                <SelectValue placeholder="Profile updated" />
               </SelectTrigger>
-              <SelectContent className="max-h-[250px] overflow-y-auto">
-                <SelectItem value="all">All Years</SelectItem>
-                {years.map((year) => (
-                  <SelectItem key={year} value={year.toString()}>
-                    {year}
+              <SelectContent>
+                <SelectItem value="any">Updated any time</SelectItem>
+                {UPDATED_WITHIN.map((u) => (
+                  <SelectItem key={u.days} value={String(u.days)}>
+                    {u.label}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
-            {/* Department Select Dropdown */}
-            <Select
-              value={filterDepartment}
-              onValueChange={(v) => {
-                setFilterDepartment(v);
-                setPage(1);
-              }}
-            >
+            {/* Graduation year range */}
+            {(["yearFrom", "yearTo"] as const).map((key) => (
+              <Select
+                key={key}
+                value={(key === "yearFrom" ? yearFrom : yearTo) || "all"}
+                onValueChange={(v) => updateQuery({ year: "", [key]: v === "all" ? "" : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Graduation Year" />
+                </SelectTrigger>
+                <SelectContent className="max-h-[250px] overflow-y-auto">
+                  <SelectItem value="all">{key === "yearFrom" ? "From any year" : "To any year"}</SelectItem>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={year.toString()}>
+                      {key === "yearFrom" ? "From" : "To"} {year}
+                      {facets && (
+                        <span className="text-gray-400"> ({countOf(facets.gradYear, year)})</span>
+                      )}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+
+            {/* Departments, several can be picked */}
+            <Select value="" onValueChange={toggleDepartment}>
               <SelectTrigger>
-                <SelectValue placeholder="Select Department" />
+                <SelectValue
+                  placeholder={departments.length ? `${departments.length} department(s)` : "All Departments"}
+                />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Departments</SelectItem>
-                <SelectItem value="Cse">Computer Science</SelectItem>
-                <SelectItem value="Et&t">ET&T</SelectItem>
-                <SelectItem value="Mech">Mechanical</SelectItem>
-                <SelectItem value="Civil">Civil</SelectItem>
-                <SelectItem value="Elec">Electrical</SelectItem>
-                <SelectItem value="Mining">Mining</SelectItem>
-                <SelectItem value="It">IT</SelectItem>
+                {DEPARTMENTS.map((d) => {
+                  const count = countOf(facets?.branch, d.value);
+                  const selected = departments.includes(d.value);
+                  return (
+                    <SelectItem
+                      key={d.value}
+                      value={d.value}
+                      disabled={!!facets && count === 0 && !selected}
+                    >
+                      {selected ? "✓ " : ""}
+                      {d.label}
+                      {facets && <span className="text-gray-400"> ({count})</span>}
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
+
+            {/* Organisation */}
+            <input
+              type="text"
+              list="directory-organisations"
+              placeholder="Organisation"
+              value={organisation}
+              onChange={(e) => setOrganisation(e.target.value)}
+              className="px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <datalist id="directory-organisations">
+              {facets?.organisation.map((o) => (
+                <option key={o.value} value={o.value}>{`${o.value} (${o.count})`}</option>
+              ))}
+            </datalist>
+
+            {/* Location is only searchable in the members view */}
+            {mode === "members" && (
+              <>
+                <input
+                  type="text"
+                  list="directory-locations"
+                  placeholder="Location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <datalist id="directory-locations">
+                  {facets?.location.map((l) => (
+                    <option key={l.value} value={l.value}>{`${l.value} (${l.count})`}</option>
+                  ))}
+                </datalist>
+              </>
+            )}
+
+            {departments.length > 0 && (
+              <div className="md:col-span-4 flex flex-wrap gap-2">
+                {departments.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => toggleDepartment(value)}
+                    className="px-3 py-1 rounded-full bg-blue-50 text-blue-800 text-sm hover:bg-blue-100"
+                  >
+                    {DEPARTMENTS.find((d) => d.value === value)?.label ?? value} ×
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
+          {mode === "public" && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-900 rounded-lg p-4 mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              {status === "authenticated" ? (
+                <>
+                  <p className="text-sm">
+                    Contact details become visible once your registration is approved.
+                  </p>
+                  <Link href="/profile">
+                    <Button variant="outline" size="sm">View registration status</Button>
+                  </Link>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm">
+                    Sign in to see contact details. The public directory only shows names,
+                    batches and organisations.
+                  </p>
+                  <Link href="/login?callbackUrl=/Directory">
+                    <Button size="sm" className="bg-blue-600 hover:bg-blue-700">Sign in</Button>
+                  </Link>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Alumni List */}
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
             {loading ? (
@@ -219,25 +421,34 @@ export default function AlumniDirectory() {
                   <div className="flex-1">
                     <h2 className="text-lg font-semibold text-gray-900">{alumni.fullName}</h2>
                     <p className="text-sm text-gray-600">
-                      {alumni.designation} {alumni.organisation && `• ${alumni.organisation}`}
+                      {[alumni.designation, alumni.organisation].filter(Boolean).join(" • ")}
                     </p>
 
-                    <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-700">
-                      <div>
-                        <span className="font-medium text-gray-900">Graduation:</span> {alumni.gradYear}
-                        <br />
+                    {mode === "public" ? (
+                      <p className="mt-3 text-sm text-gray-700">
+                        <span className="font-medium text-gray-900">Graduation:</span> {alumni.gradYear} •{" "}
                         <span className="font-medium text-gray-900">Branch:</span> {alumni.branch}
-                      </div>
+                      </p>
+                    ) : (
+                      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-700">
+                        <div>
+                          <span className="font-medium text-gray-900">Graduation:</span> {alumni.gradYear}
+                          <br />
+                          <span className="font-medium text-gray-900">Branch:</span> {alumni.branch}
+                        </div>
 
-                      <div>
-                        <span className="font-medium text-gray-900">Email:</span> {alumni.email}
-                      </div>
+                        <div>
+                          <span className="font-medium text-gray-900">Email:</span> {alumni.email || "—"}
+                          <br />
+                          <span className="font-medium text-gray-900">Mobile:</span> {alumni.mobile || "—"}
+                        </div>
 
-                      <div>
-                        <span className="font-medium text-gray-900">Location:</span>{" "}
-                        {alumni.location || "—"}
+                        <div>
+                          <span className="font-medium text-gray-900">Location:</span>{" "}
+                          {alumni.location || "—"}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               ))
@@ -246,11 +457,7 @@ export default function AlumniDirectory() {
                 <p className="text-gray-500 text-lg">No alumni found matching your criteria.</p>
                 <Button 
                   variant="link" 
-                  onClick={() => {
-                    setSearchTerm("");
-                    setFilterYear("");
-                    setFilterDepartment("all");
-                  }}
+                  onClick={clearFilters}
                   className="mt-2 text-blue-600"
                 >
                   Clear all filters
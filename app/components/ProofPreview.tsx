@@ -0,0 +1,42 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+
+// Proof documents are images or PDFs from our upload host. Images render as
+// images; PDFs, or anything that fails to load as an image, go to the
+// browser's PDF viewer, which a sandboxed iframe would block.
+export default function ProofPreview({
+  url,
+  title,
+  pdf = false,
+}: {
+  url: string;
+  title: string;
+  pdf?: boolean;
+}) {
+  const [showPdf, setShowPdf] = useState(pdf);
+
+  return (
+    <div className="relative w-full h-80 border rounded overflow-hidden">
+      {showPdf ? (
+        <object data={url} type="application/pdf" aria-label={title} className="w-full h-full">
+          <p className="p-4 text-sm text-gray-600">
+            This browser can&apos;t show the document here.{" "}
+            <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+              Open it in a new tab
+            </a>
+          </p>
+        </object>
+      ) : (
+        <Image
+          src={url}
+          alt={title}
+          fill
+          className="object-contain"
+          onError={() => setShowPdf(true)}
+        />
+      )}
+    </div>
+  );
+}
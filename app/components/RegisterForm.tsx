@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
@@ -25,13 +25,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import toast from "react-hot-toast";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { UploadButton } from "@/utils/uploadthing";
+import ProofPreview from "@/app/components/ProofPreview";
 import { z } from "zod";
 
 // FIX: Use z.infer to automatically match the schema (mobile is string)
 type FormData = z.infer<typeof userSchema>;
 
+// Returned by GET /api/invites/[token]
+type InviteDetails = {
+  gradYear: number;
+  branch: string;
+  email?: string | null;
+  invitedBy: string;
+};
+
 // Props used by the ProofUpload component
 type ProofUploadProps = {
   onUploaded: (url: string | null) => void;
@@ -142,14 +151,7 @@ const ProofUpload = ({ onUploaded, loadingUpload, setLoadingUpload }: ProofUploa
           {isPdf(type) && (
             <div className="w-full">
               <div className="mb-2 text-sm text-gray-600">PDF Preview:</div>
-              <div className="w-full h-80 border rounded overflow-hidden">
-                <iframe
-                  src={filePreviewUrl}
-                  title="PDF preview"
-                  className="w-full h-full"
-                  sandbox="allow-same-origin allow-scripts allow-popups allow-forms"
-                />
-              </div>
+              <ProofPreview url={filePreviewUrl} title="PDF preview" pdf />
               <div className="mt-2">
                 <a href={filePreviewUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline text-sm">
                   Open full document
@@ -183,26 +185,51 @@ export default function RegisterForm() {
   const [loadingUpload, setLoadingUpload] = useState(false);
   const router = useRouter();
 
+  // Prefilled from identity claims when single sign-on found no account, see lib/oidc.ts
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+
   const form = useForm<FormData>({
     resolver: zodResolver(userSchema),
     mode: "onChange",
     defaultValues: {
-      fullName: "",
+      fullName: searchParams.get("fullName") ?? "",
       gradYear: 1968,
       branch: "",
-      email: "",
+      email: searchParams.get("email") ?? "",
       mobile: "", // FIX: Default to empty string
       organisation: "",
       designation: "",
       password: "",
-      role: "alumni",
       proofPicture: "",
       location: "",
     },
   });
 
+  // An invite fixes the batch and replaces the proof document
+  useEffect(() => {
+    if (!inviteToken) return;
+    axios
+      .get(`/api/invites/${encodeURIComponent(inviteToken)}`)
+      .then((res) => {
+        const details: InviteDetails = res.data.data;
+        setInvite(details);
+        form.setValue("gradYear", details.gradYear, { shouldValidate: true });
+        form.setValue("branch", details.branch, { shouldValidate: true });
+        if (details.email) form.setValue("email", details.email, { shouldValidate: true });
+      })
+      .catch((error) => {
+        toast.error(
+          isAxiosError(error)
+            ? error.response?.data?.message || "Invalid invite link"
+            : "Invalid invite link"
+        );
+      });
+  }, [inviteToken, form]);
+
   const onSubmit = async (data: FormData) => {
-    if (!proofUrl) {
+    if (!invite && !proofUrl) {
       toast.error("Please upload your marksheet/TC/Degree before submitting.");
       return;
     }
@@ -212,8 +239,9 @@ export default function RegisterForm() {
       setSubmitted(true);
       const res = await axios.post("/api/auth", {
         ...data,
-        proofPicture: proofUrl,
+        proofPicture: proofUrl ?? undefined,
         location: data.location,
+        invite: invite ? inviteToken : undefined,
       });
 
       if (res.status === 200) {
@@ -263,6 +291,13 @@ export default function RegisterForm() {
         <div className="max-w-3xl mx-auto px-4">
           <h2 className="text-3xl font-bold text-center mb-8 text-gray-900">Complete Your Registration</h2>
 
+          {invite && (
+            <div className="mb-6 rounded-md border border-green-300 bg-green-50 p-4 text-sm text-green-900">
+              {invite.invitedBy} invited you to join the {invite.branch} {invite.gradYear} batch.
+              No proof document is needed; your account is approved once you confirm your email.
+            </div>
+          )}
+
           <div className="bg-white rounded-lg shadow-lg p-8">
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -291,7 +326,11 @@ export default function RegisterForm() {
                       <FormItem>
                         <FormLabel>Graduation Year *</FormLabel>
                         <FormControl>
-                          <Select onValueChange={(value) => field.onChange(parseInt(value))} defaultValue={String(field.value)}>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            value={String(field.value)}
+                            disabled={!!invite}
+                          >
                             <SelectTrigger>
                               <SelectValue placeholder="Select Year" />
                             </SelectTrigger>
@@ -316,7 +355,7 @@ export default function RegisterForm() {
                       <FormItem>
                         <FormLabel>Branch / Department *</FormLabel>
                         <FormControl>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!!invite}>
                             <SelectTrigger>
                               <SelectValue placeholder="Select Department" />
                             </SelectTrigger>
@@ -346,7 +385,12 @@ export default function RegisterForm() {
                       <FormItem>
                         <FormLabel>Email *</FormLabel>
                         <FormControl>
-                          <Input type="email" placeholder="your.email@example.com" {...field} />
+                          <Input
+                            type="email"
+                            placeholder="your.email@example.com"
+                            readOnly={!!invite?.email}
+                            {...field}
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -435,10 +479,12 @@ export default function RegisterForm() {
                 />
 
                 {/* File Upload */}
-                <ProofUpload onUploaded={(url) => setProofUrl(url)} loadingUpload={loadingUpload} setLoadingUpload={setLoadingUpload} />
+                {!invite && (
+                  <ProofUpload onUploaded={(url) => setProofUrl(url)} loadingUpload={loadingUpload} setLoadingUpload={setLoadingUpload} />
+                )}
 
                 {/* Submit */}
-                <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={submitted || !proofUrl || loadingUpload}>
+                <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={submitted || (!invite && !proofUrl) || loadingUpload}>
                   {submitted ? "Submitting..." : "Verify your mail and Join Alumni Network"}
                 </Button>
               </form>
@@ -1,11 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { signIn } from "next-auth/react";
+import { getProviders, getSession, signIn, type SignInResponse } from "next-auth/react";
 
 import {
   Form,
@@ -16,52 +16,194 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
 import { Button } from "@/components/ui/button";
 import { signinSchema } from "@/lib/zod";
+import { permissionsOf } from "@/lib/permissions";
 import toast from "react-hot-toast";
-import { useRouter } from "next/navigation";
+import axios, { isAxiosError } from "axios";
+import { useRouter, useSearchParams } from "next/navigation";
+
+// Messages for the ?error= codes NextAuth and lib/oidc.ts redirect back with
+const signInErrors: Record<string, string> = {
+  OidcEmailNotVerified: "Your identity provider has not verified your email address",
+  OAuthSignin: "Could not start single sign-on, please try again",
+  OAuthCallback: "Single sign-on failed, please try again",
+  AccessDenied: "Sign in was denied",
+  TwoFactorPasswordOnly: "This account uses two-factor authentication, sign in with your password",
+};
 
 type LoginFormData = {
   email: string;
   password: string;
-  role : "alumni" | "admin";
 };
 
 export default function LoginForm() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set by middleware.ts when it bounces a signed-out visitor; only local paths are followed
+  const callbackUrl = searchParams.get("callbackUrl");
+  const returnTo =
+    callbackUrl && callbackUrl.startsWith("/") && !callbackUrl.startsWith("//")
+      ? callbackUrl
+      : null;
+  const signInError = searchParams.get("error");
+  const [ssoProvider, setSsoProvider] = useState<{ id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    getProviders().then((providers) => setSsoProvider(providers?.oidc ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (signInError) toast.error(signInErrors[signInError] ?? "Sign in failed");
+  }, [signInError]);
+
+  // Set once the password checks out for an account with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
+
   const form = useForm<LoginFormData>({
     resolver: zodResolver(signinSchema),
     defaultValues: {
       email: "",
       password: "",
-      role : "alumni"
     },
   });
 
+  // Passwordless sign-in; the emailed link opens this page with email and otp filled in
+  const [mode, setMode] = useState<"password" | "email-code">(
+    searchParams.get("otp") ? "email-code" : "password"
+  );
+  const [codeEmail, setCodeEmail] = useState(searchParams.get("email") ?? "");
+  const [otp, setOtp] = useState(searchParams.get("otp") ?? "");
+  const [codeSent, setCodeSent] = useState(!!searchParams.get("otp"));
+  const [sending, setSending] = useState(false);
+
+  const handleResult = async (res: SignInResponse | undefined, failure: string) => {
+    if(res?.ok){
+      toast.success("Sign in successfull");
+      const session = await getSession();
+      router.push(returnTo ?? (permissionsOf(session?.user).length > 0 ? "/admin" : "/profile"));
+    }
+    else if(res?.error === "TwoFactorRequired"){
+      setNeedsCode(true);
+      toast("Enter the code from your authenticator app");
+    }
+    else if(res?.error === "TwoFactorInvalid"){
+      setCode("");
+      toast.error("Invalid authentication code");
+    }
+    else if(res?.error === "AccountLocked"){
+      toast.error("Too many failed attempts. Sign-in is paused for a few minutes; reset your password to continue now.");
+    }
+    else if(res?.error === "TooManyAttempts"){
+      toast.error("Too many failed attempts from your network. Please try again later.");
+    }
+    else {
+      toast.error(failure);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     const loadingToast = toast.loading("Signing in...");
     try {
       console.log("Login attempt:", data);
       const res = await signIn("credentials" , {
         ...data,
-        role: "alumni",
+        ...(needsCode ? { code } : {}),
         redirect : false
       });
       toast.dismiss(loadingToast);
-      if(res?.ok){
-        toast.success("Sign in successfull");
-        router.push("/profile");
-      }
-      else {
-        toast.error("Invalid username or password");
+      await handleResult(res, "Invalid username or password");
+    } catch (error) {
+      toast.error("Sign in failed");
+      console.error("Login error:", error);
+    }
+  };
+
+  const sendLoginCode = async () => {
+    if (!codeEmail) {
+      toast.error("Please enter your email");
+      return;
+    }
+    setSending(true);
+    try {
+      const res = await axios.post("/api/login/code", { email: codeEmail });
+      toast.success(res.data.message);
+      setCodeSent(true);
+      setOtp("");
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to send code");
+      } else {
+        toast.error("Something went wrong. Try again later.");
       }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const signInWithCode = async () => {
+    if (otp.length < 6) {
+      toast.error("Please enter the 6-digit code");
+      return;
+    }
+    const loadingToast = toast.loading("Signing in...");
+    try {
+      const res = await signIn("email-code" , {
+        email : codeEmail,
+        otp,
+        ...(needsCode ? { code } : {}),
+        redirect : false
+      });
+      toast.dismiss(loadingToast);
+      await handleResult(res, "Invalid or expired code");
     } catch (error) {
+      toast.dismiss(loadingToast);
       toast.error("Sign in failed");
       console.error("Login error:", error);
     }
   };
 
+  // Follow the emailed link straight through
+  const linkUsed = useRef(false);
+  useEffect(() => {
+    if (linkUsed.current || !searchParams.get("otp")) return;
+    linkUsed.current = true;
+    signInWithCode();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const switchMode = (next: "password" | "email-code") => {
+    setMode(next);
+    setNeedsCode(false);
+    setCode("");
+  };
+
+  const secondStep = needsCode && (
+    <div className="space-y-2">
+      <label htmlFor="code" className="text-sm font-medium">
+        Authentication code
+      </label>
+      <Input
+        id="code"
+        autoComplete="one-time-code"
+        autoFocus
+        placeholder="6-digit code or recovery code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      <p className="text-xs text-gray-500">
+        Lost your device? Enter one of your recovery codes instead.
+      </p>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -154,6 +296,7 @@ export default function LoginForm() {
           </div>
 
           <div className="bg-white rounded-lg shadow-lg p-8">
+            {mode === "password" ? (
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 {/* Email */}
@@ -177,7 +320,12 @@ export default function LoginForm() {
                   name="password"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Alumni Password *</FormLabel>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Alumni Password *</FormLabel>
+                        <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-700">
+                          Forgot password?
+                        </Link>
+                      </div>
                       <FormControl>
                         <Input type="password" placeholder="Enter your alumni password" {...field} />
                       </FormControl>
@@ -186,11 +334,34 @@ export default function LoginForm() {
                   )}
                 />
 
+                {/* Second step */}
+                {secondStep}
+
                 {/* Submit */}
                 <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700">
                   Sign In
                 </Button>
 
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => switchMode("email-code")}
+                >
+                  Email me a sign-in code instead
+                </Button>
+
+                {ssoProvider && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => signIn(ssoProvider.id, { callbackUrl: returnTo ?? "/profile" })}
+                  >
+                    Continue with {ssoProvider.name}
+                  </Button>
+                )}
+
                 <div className="text-center text-sm text-gray-600 pt-4">
                   Don&apos;t have an account?{" "}
                   <Link href="/register" className="text-blue-600 hover:text-blue-700 font-medium">
@@ -199,6 +370,78 @@ export default function LoginForm() {
                 </div>
               </form>
             </Form>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (codeSent) signInWithCode();
+                  else sendLoginCode();
+                }}
+                className="space-y-6"
+              >
+                <div className="space-y-2">
+                  <label htmlFor="code-email" className="text-sm font-medium">
+                    Email Address *
+                  </label>
+                  <Input
+                    id="code-email"
+                    type="email"
+                    placeholder="your.email@example.com"
+                    value={codeEmail}
+                    onChange={(e) => setCodeEmail(e.target.value)}
+                  />
+                </div>
+
+                {codeSent && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Enter the 6-digit code we emailed you, or open the link in that email.
+                    </p>
+                    <div className="flex justify-center">
+                      <InputOTP maxLength={6} value={otp} onChange={(value) => setOtp(value)}>
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3, 4, 5].map((i) => (
+                            <InputOTPSlot key={i} index={i} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  </div>
+                )}
+
+                {secondStep}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={sending}
+                >
+                  {codeSent ? "Sign In" : sending ? "Sending..." : "Send Sign-in Code"}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  {codeSent ? (
+                    <button
+                      type="button"
+                      onClick={sendLoginCode}
+                      disabled={sending}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      Send a new code
+                    </button>
+                  ) : (
+                    <span />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => switchMode("password")}
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    Use my password instead
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
         </div>
       </section>
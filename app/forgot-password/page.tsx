@@ -0,0 +1,181 @@
+"use client";
+
+import axios, { isAxiosError } from "axios";
+import { useState, Suspense } from "react";
+import Link from "next/link";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import toast from "react-hot-toast";
+import { useRouter, useSearchParams } from "next/navigation";
+import { userSchema } from "@/lib/zod";
+
+function ForgotPassword() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  // the emailed link opens this page with both values filled in
+  const [email, setEmail] = useState<string>(searchParams.get("email") ?? "");
+  const [otp, setOtp] = useState<string>(searchParams.get("code") ?? "");
+  const [password, setPassword] = useState<string>("");
+  const [confirm, setConfirm] = useState<string>("");
+  const [step, setStep] = useState<"request" | "reset">(
+    searchParams.get("code") ? "reset" : "request"
+  );
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) {
+      toast.error("Please enter your email");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await axios.post("/api/password/forgot", { email });
+      toast.success(res.data.message);
+      setStep("reset");
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to send reset code");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (otp.length < 6) {
+      toast.error("Please enter a valid 6-digit code");
+      return;
+    }
+
+    const check = userSchema.shape.password.safeParse(password);
+    if (!check.success) {
+      toast.error(check.error.issues[0].message);
+      return;
+    }
+    if (password !== confirm) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await axios.post("/api/password/reset", { email, otp, password });
+      toast.success("Password reset! Please sign in.");
+      router.push("/login");
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to reset password");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gray-50">
+      <div className="flex flex-col gap-6 p-8 bg-white rounded-2xl shadow-lg w-96">
+        <h2 className="text-xl font-semibold text-center">Reset Your Password</h2>
+
+        {step === "request" ? (
+          <form onSubmit={handleRequest} className="flex flex-col gap-4">
+            <p className="text-gray-500 text-sm text-center">
+              Enter the email you registered with and we&apos;ll send you a reset code.
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="email">Email Address</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="your.email@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {submitting ? "Sending..." : "Send Reset Code"}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleReset} className="flex flex-col gap-4">
+            <p className="text-gray-500 text-sm text-center">
+              Enter the 6-digit code sent to {email || "your email"} and choose a new password.
+            </p>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={otp} onChange={(value) => setOtp(value)}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="password">New Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Min 8 characters"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="confirm">Confirm Password</Label>
+              <Input
+                id="confirm"
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {submitting ? "Saving..." : "Set New Password"}
+            </Button>
+            <button
+              type="button"
+              onClick={() => setStep("request")}
+              className="text-blue-500 text-sm underline opacity-90 hover:opacity-100 transition-all"
+            >
+              Send a new code
+            </button>
+          </form>
+        )}
+
+        <Link href="/login" className="text-center text-sm text-gray-600 hover:text-blue-600">
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+// WRAPPER to fix "missing suspense boundary" error
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <ForgotPassword />
+    </Suspense>
+  );
+}
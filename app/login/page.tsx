@@ -1,8 +1,14 @@
 'use client';
 
+import { Suspense } from 'react';
 import LoginForm from '../components/loginPage';
 
+// Suspense is required because LoginForm reads the callbackUrl search param
 export default function LoginPage() {
     
-  return <LoginForm />;
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <LoginForm />
+    </Suspense>
+  );
 }
\ No newline at end of file
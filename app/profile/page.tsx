@@ -5,12 +5,20 @@ import { useEffect, useState } from "react";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
 import Link from "next/link";
-import axios from "axios";
+import axios, { isAxiosError } from "axios";
 import toast from "react-hot-toast";
 import { useRouter } from "next/navigation";
 import { UploadButton } from "@/utils/uploadthing";
 import Footer from "@/app/components/Footer";
 import { signOut } from "next-auth/react";
+import { permissionsOf } from "@/lib/permissions";
+import {
+  CONTACT_FIELDS,
+  VISIBILITIES,
+  VISIBILITY_COLUMNS,
+  VISIBILITY_LABELS,
+  type Visibility,
+} from "@/lib/privacy";
 
 // UI Components
 import { Button } from "@/components/ui/button";
@@ -23,23 +31,52 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
 
 // --- Types ---
+interface VerificationRequest {
+  id: number;
+  proofPicture: string;
+  status: "pending" | "approved" | "rejected";
+  reason?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+}
+
 interface UserProfile {
   id: number;
   fullName: string;
   gradYear: number;
   branch: string;
   email: string;
+  pendingEmail?: string | null;
   mobile: number;
   organisation: string | null;
   designation: string | null;
   location?: string | null;
-  role: string;
+  roles: string[];
   verified: boolean;
+  verificationStatus: "pending" | "approved" | "rejected";
   isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
+  emailVisibility: Visibility;
+  mobileVisibility: Visibility;
+  locationVisibility: Visibility;
+  deletionScheduledFor?: string | null;
   profilePicture?: string | null;
   proofPicture?: string | null;
+  verificationRequests?: VerificationRequest[];
 }
 
 // --- Main Page Component ---
@@ -69,7 +106,32 @@ export default function ProfilePage() {
 
   // Handlers
   const handleProfileUpdate = (updatedUser: UserProfile) => {
-    setUser(updatedUser);
+    // PUT /api/profile does not return the verification history, keep ours
+    setUser((prev) => ({
+      ...updatedUser,
+      verificationRequests: prev?.verificationRequests,
+    }));
+  };
+
+  const handleProofResubmitted = (proofPicture: string) => {
+    setUser((prev) =>
+      prev
+        ? {
+            ...prev,
+            proofPicture,
+            verificationStatus: "pending",
+            verificationRequests: [
+              {
+                id: Date.now(),
+                proofPicture,
+                status: "pending",
+                createdAt: new Date().toISOString(),
+              },
+              ...(prev.verificationRequests ?? []),
+            ],
+          }
+        : prev
+    );
   };
 
   const handleRedirectToVerify = () => {
@@ -135,8 +197,13 @@ export default function ProfilePage() {
           </div>
         </div>
 
-        {/* Right Side: Logout Button */}
-        <div>
+        {/* Right Side: Dashboard link for staff, Logout Button */}
+        <div className="flex items-center gap-4">
+          {permissionsOf(session.user).length > 0 && (
+            <Link href="/admin" className="text-sm font-medium text-gray-700 hover:text-blue-600">
+              Dashboard
+            </Link>
+          )}
           <button
             onClick={() => signOut({ callbackUrl: '/' })} // Redirects to home after logout
             className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
@@ -164,6 +231,16 @@ export default function ProfilePage() {
           </div>
 
           <div className="p-6 sm:p-10 space-y-8">
+            {/* Pending account deletion */}
+            {user.deletionScheduledFor && (
+              <DeletionScheduledBanner
+                deleteOn={user.deletionScheduledFor}
+                onCancelled={() =>
+                  setUser((prev) => (prev ? { ...prev, deletionScheduledFor: null } : prev))
+                }
+              />
+            )}
+
             {/* Email Verification Warning */}
             {!user.isEmailVerified && (
               <div className="w-full bg-yellow-50 border-l-4 border-yellow-500 p-5 rounded-md shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4 text-left">
@@ -187,6 +264,27 @@ export default function ProfilePage() {
               </div>
             )}
 
+            {/* Admin role waits for two-factor authentication */}
+            {user.roles.includes("admin") && !user.twoFactorEnabled && (
+              <div className="w-full bg-red-50 border-l-4 border-red-500 p-5 rounded-md shadow-sm text-left">
+                <h3 className="font-bold text-base text-red-900">
+                  Two-factor authentication required
+                </h3>
+                <p className="text-sm text-red-800/90 max-w-xl">
+                  Your account has the admin role. Turn on two-factor
+                  authentication below to use the admin dashboard.
+                </p>
+              </div>
+            )}
+
+            {/* Admin Review Status */}
+            {user.isEmailVerified && !user.verified && (
+              <VerificationStatusBanner
+                user={user}
+                onResubmitted={handleProofResubmitted}
+              />
+            )}
+
             {/* Profile Content Grid */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
               {/* Left Column: Avatar & Contact */}
@@ -208,6 +306,13 @@ export default function ProfilePage() {
 
                 <div className="w-full text-left space-y-3 mt-4">
                   <DetailItem label="Email" value={user.email} />
+                  <ChangeEmailDialog
+                    user={user}
+                    onUpdate={(changes) =>
+                      setUser((prev) => (prev ? { ...prev, ...changes } : prev))
+                    }
+                  />
+                  <ChangePasswordDialog />
                   <DetailItem label="Mobile" value={String(user.mobile)} />
                   <DetailItem label="Location" value={user.location} />
                 </div>
@@ -236,6 +341,31 @@ export default function ProfilePage() {
                     </Link>
                   </div>
                 )}
+
+                {user.verified && (
+                  <PrivacySection
+                    user={user}
+                    onUpdate={(changes) =>
+                      setUser((prev) => (prev ? { ...prev, ...changes } : prev))
+                    }
+                  />
+                )}
+
+                <TwoFactorSection
+                  user={user}
+                  onUpdate={(changes) =>
+                    setUser((prev) => (prev ? { ...prev, ...changes } : prev))
+                  }
+                />
+
+                <SessionsSection />
+
+                <YourDataSection
+                  user={user}
+                  onUpdate={(changes) =>
+                    setUser((prev) => (prev ? { ...prev, ...changes } : prev))
+                  }
+                />
               </div>
             </div>
           </div>
@@ -262,6 +392,922 @@ const DetailItem = ({
   </div>
 );
 
+// --- Admin review status / resubmission ---
+function VerificationStatusBanner({
+  user,
+  onResubmitted,
+}: {
+  user: UserProfile;
+  onResubmitted: (proofPicture: string) => void;
+}) {
+  const [proofUrl, setProofUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  if (user.verificationStatus === "pending") {
+    return (
+      <div className="w-full bg-blue-50 border-l-4 border-blue-500 p-5 rounded-md shadow-sm text-left">
+        <h3 className="font-bold text-base text-blue-900">
+          Registration under review
+        </h3>
+        <p className="text-sm text-blue-800/90 max-w-xl">
+          An administrator is checking your proof document. You will appear in
+          the Alumni Directory once it is approved.
+        </p>
+      </div>
+    );
+  }
+
+  if (user.verificationStatus !== "rejected") return null;
+
+  const lastRejection = user.verificationRequests?.find(
+    (r) => r.status === "rejected"
+  );
+
+  const handleResubmit = async () => {
+    if (!proofUrl) return;
+    setSubmitting(true);
+    try {
+      await axios.post("/api/profile/proof", { proofPicture: proofUrl });
+      onResubmitted(proofUrl);
+      setProofUrl(null);
+      toast.success("Document resubmitted for review!");
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to resubmit document.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-red-50 border-l-4 border-red-500 p-5 rounded-md shadow-sm text-left space-y-4">
+      <div className="text-red-900 space-y-1">
+        <h3 className="font-bold text-base">Registration not approved</h3>
+        <p className="text-sm text-red-800/90 max-w-xl">
+          {lastRejection?.reason
+            ? `Reason: ${lastRejection.reason}`
+            : "Your proof document could not be accepted."}
+        </p>
+        <p className="text-sm text-red-800/90 max-w-xl">
+          Upload a new marksheet, TC or degree certificate to request another review.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <UploadButton
+          endpoint="documentUploader"
+          appearance={{
+            button: "bg-red-600 text-white text-sm px-4 py-2 rounded-md",
+            allowedContent: "text-xs text-red-800",
+          }}
+          onClientUploadComplete={(res) => {
+            if (res?.[0]?.url) {
+              setProofUrl(res[0].url);
+              toast.success("Document uploaded!");
+            }
+            setUploading(false);
+          }}
+          onUploadError={(error) => {
+            toast.error(`Upload failed: ${error.message}`);
+            setUploading(false);
+          }}
+          onUploadBegin={() => setUploading(true)}
+        />
+
+        {proofUrl && (
+          <a
+            href={proofUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 underline text-sm"
+          >
+            Preview uploaded document
+          </a>
+        )}
+
+        <Button
+          onClick={handleResubmit}
+          disabled={!proofUrl || uploading || submitting}
+          className="bg-red-600 hover:bg-red-700 text-white md:ml-auto"
+        >
+          {submitting ? "Submitting..." : "Submit for Review"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// --- Change email (confirmed by a code sent to the new address) ---
+function ChangeEmailDialog({
+  user,
+  onUpdate,
+}: {
+  user: UserProfile;
+  onUpdate: (changes: Partial<UserProfile>) => void;
+}) {
+  const { update } = useSession();
+  const [open, setOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [otp, setOtp] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const step = user.pendingEmail ? "confirm" : "request";
+
+  const showError = (error: unknown, fallback: string) => {
+    if (isAxiosError(error)) {
+      toast.error(error.response?.data?.message || fallback);
+    } else {
+      toast.error("Something went wrong. Try again later.");
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const res = await axios.post("/api/profile/email", { newEmail });
+      onUpdate({ pendingEmail: res.data.pendingEmail });
+      toast.success(res.data.message);
+    } catch (error) {
+      showError(error, "Failed to send code.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (otp.length < 6) {
+      toast.error("Please enter the 6-digit code");
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await axios.post("/api/profile/email/confirm", { otp });
+      onUpdate({ email: res.data.email, pendingEmail: null });
+      // re-runs the jwt callback so session.user.email matches the new address
+      await update();
+      setOpen(false);
+      setOtp("");
+      setNewEmail("");
+      toast.success("Email updated!");
+    } catch (error) {
+      showError(error, "Failed to confirm code.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setBusy(true);
+    try {
+      await axios.delete("/api/profile/email");
+      onUpdate({ pendingEmail: null });
+      setOtp("");
+    } catch (error) {
+      showError(error, "Failed to cancel.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button className="text-blue-600 text-xs underline hover:text-blue-700">
+          {user.pendingEmail ? `Confirm ${user.pendingEmail}` : "Change email"}
+        </button>
+      </DialogTrigger>
+
+      <DialogContent
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[95vw] max-w-md bg-white p-6 shadow-xl sm:rounded-lg border border-gray-200"
+        style={{ transform: "translate(-50%, -50%)" }}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">
+            Change Email
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === "request" ? (
+          <form onSubmit={handleRequest} className="space-y-4 mt-4">
+            <p className="text-sm text-gray-600">
+              We&apos;ll send a code to the new address. You keep signing in
+              with {user.email} until it is confirmed.
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="new-email">New Email</Label>
+              <Input
+                id="new-email"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="your.new.email@example.com"
+                className="focus-visible:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-4 border-t">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={busy || !newEmail}
+              >
+                {busy ? "Sending..." : "Send Code"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleConfirm} className="space-y-4 mt-4">
+            <p className="text-sm text-gray-600">
+              Enter the 6-digit code sent to {user.pendingEmail}.
+            </p>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={otp} onChange={(value) => setOtp(value)}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex justify-end gap-3 pt-4 border-t">
+              <Button type="button" variant="outline" onClick={handleCancel} disabled={busy}>
+                Use a Different Email
+              </Button>
+              <Button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={busy}
+              >
+                {busy ? "Confirming..." : "Confirm"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// --- Change password ---
+function ChangePasswordDialog() {
+  const [open, setOpen] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast.error("The new passwords do not match");
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await axios.post("/api/profile/password", { currentPassword, newPassword });
+      toast.success(res.data.message);
+      reset();
+      setOpen(false);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // policy failures come back as zod field errors
+        const fieldErrors = error.response?.data?.errors?.fieldErrors;
+        toast.error(
+          fieldErrors?.newPassword?.[0] ||
+            fieldErrors?.currentPassword?.[0] ||
+            error.response?.data?.message ||
+            "Failed to change password."
+        );
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="text-blue-600 text-xs underline hover:text-blue-700">
+          Change password
+        </button>
+      </DialogTrigger>
+
+      <DialogContent
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[95vw] max-w-md bg-white p-6 shadow-xl sm:rounded-lg border border-gray-200"
+        style={{ transform: "translate(-50%, -50%)" }}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">
+            Change Password
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <p className="text-sm text-gray-600">
+            Other devices signed in to your account will be signed out.
+          </p>
+          <div className="space-y-1">
+            <Label htmlFor="current-password">Current Password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="focus-visible:ring-blue-500"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="At least 8 characters"
+              className="focus-visible:ring-blue-500"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="confirm-password">Confirm New Password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="focus-visible:ring-blue-500"
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              disabled={busy || !currentPassword || !newPassword}
+            >
+              {busy ? "Saving..." : "Change Password"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// --- Two-factor authentication ---
+// Enrollment shows a QR code, confirms one code from the app, then shows the
+// recovery codes once. Turning it off or replacing codes asks for a code again.
+function TwoFactorSection({
+  user,
+  onUpdate,
+}: {
+  user: UserProfile;
+  onUpdate: (changes: Partial<UserProfile>) => void;
+}) {
+  const { update } = useSession();
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    if (isAxiosError(error)) {
+      toast.error(error.response?.data?.message || fallback);
+    } else {
+      toast.error("Something went wrong. Try again later.");
+    }
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      showError(error, fallback);
+    } finally {
+      setBusy(false);
+      setCode("");
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      const res = await axios.post("/api/profile/2fa");
+      setSetup({ qrCode: res.data.qrCode, secret: res.data.secret });
+      setRecoveryCodes(null);
+    }, "Failed to start setup.");
+
+  const handleEnable = () =>
+    run(async () => {
+      const res = await axios.post("/api/profile/2fa/enable", { code });
+      setSetup(null);
+      setRecoveryCodes(res.data.recoveryCodes);
+      onUpdate({ twoFactorEnabled: true });
+      // admin rights depend on it, see lib/permissions.ts
+      await update();
+      toast.success(res.data.message);
+    }, "Failed to turn on two-factor authentication.");
+
+  const handleNewCodes = () =>
+    run(async () => {
+      const res = await axios.post("/api/profile/2fa/recovery-codes", { code });
+      setRecoveryCodes(res.data.recoveryCodes);
+      toast.success("New recovery codes created");
+    }, "Failed to create recovery codes.");
+
+  const handleDisable = () =>
+    run(async () => {
+      const res = await axios.delete("/api/profile/2fa", { data: { code } });
+      setRecoveryCodes(null);
+      onUpdate({ twoFactorEnabled: false });
+      await update();
+      toast.success(res.data.message);
+    }, "Failed to turn off two-factor authentication.");
+
+  const codeInput = (
+    <Input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={setup ? "6-digit code" : "Authenticator or recovery code"}
+      autoComplete="one-time-code"
+      className="max-w-xs focus-visible:ring-blue-500"
+    />
+  );
+
+  return (
+    <div className="pt-6 space-y-4">
+      <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">
+        Two-Factor Authentication
+      </h3>
+
+      {recoveryCodes && (
+        <div className="bg-gray-50 border rounded-md p-4 space-y-2">
+          <p className="text-sm text-gray-700">
+            Save these recovery codes somewhere safe. Each works once if you
+            lose your device, and they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <span key={c}>{c}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {user.twoFactorEnabled ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            On. Signing in asks for a code from your authenticator app.
+          </p>
+          {codeInput}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={handleNewCodes} disabled={busy || !code}>
+              New Recovery Codes
+            </Button>
+            {!user.roles.includes("admin") && (
+              <Button variant="outline" onClick={handleDisable} disabled={busy || !code}>
+                Turn Off
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : setup ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with your authenticator app, then enter the code
+            it shows.
+          </p>
+          <Image src={setup.qrCode} alt="Authenticator QR code" width={176} height={176} unoptimized />
+          <p className="text-xs text-gray-500 break-all">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono">{setup.secret}</span>
+          </p>
+          {codeInput}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setSetup(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleEnable}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              disabled={busy || code.length < 6}
+            >
+              {busy ? "Checking..." : "Turn On"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Add a second step to signing in with an authenticator app.
+          </p>
+          <Button
+            onClick={handleStart}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={busy}
+          >
+            Set Up
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Signed-in devices ---
+interface LoginSessionItem {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+function SessionsSection() {
+  const [sessions, setSessions] = useState<LoginSessionItem[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const res = await axios.get("/api/profile/sessions");
+      setSessions(res.data);
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const revoke = async (url: string) => {
+    setBusy(true);
+    try {
+      const res = await axios.delete(url);
+      toast.success(res.data.message);
+      await load();
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to sign out device.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const others = sessions.filter((s) => !s.current);
+
+  return (
+    <div className="pt-6 space-y-4">
+      <div className="flex items-center justify-between border-b pb-2">
+        <h3 className="text-xl font-semibold text-gray-800">Signed-in Devices</h3>
+        {others.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revoke("/api/profile/sessions")}
+            disabled={busy}
+          >
+            Sign Out All Others
+          </Button>
+        )}
+      </div>
+
+      <ul className="divide-y">
+        {sessions.map((s) => (
+          <li key={s.id} className="flex items-center justify-between py-3 gap-4">
+            <div>
+              <p className="font-medium text-gray-900">
+                {s.device}
+                {s.current && (
+                  <span className="ml-2 text-xs text-green-700 bg-green-50 px-2 py-0.5 rounded">
+                    This device
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">
+                {s.ip ?? "Unknown IP"} • Last active{" "}
+                {new Date(s.lastSeenAt).toLocaleString()} • Signed in{" "}
+                {new Date(s.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            {!s.current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revoke(`/api/profile/sessions/${s.id}`)}
+                disabled={busy}
+              >
+                Sign Out
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// --- Who can see the contact details in the directory ---
+const CONTACT_FIELD_LABELS = { email: "Email", mobile: "Mobile", location: "Location" };
+
+function PrivacySection({
+  user,
+  onUpdate,
+}: {
+  user: UserProfile;
+  onUpdate: (changes: Partial<UserProfile>) => void;
+}) {
+  const [settings, setSettings] = useState({
+    emailVisibility: user.emailVisibility,
+    mobileVisibility: user.mobileVisibility,
+    locationVisibility: user.locationVisibility,
+  });
+  const [busy, setBusy] = useState(false);
+
+  const changed = CONTACT_FIELDS.some(
+    (f) => settings[VISIBILITY_COLUMNS[f]] !== user[VISIBILITY_COLUMNS[f]]
+  );
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      const res = await axios.put("/api/profile/privacy", settings);
+      toast.success(res.data.message);
+      onUpdate(settings);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to save privacy settings.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="pt-6 space-y-4">
+      <div className="flex items-center justify-between border-b pb-2">
+        <h3 className="text-xl font-semibold text-gray-800">Directory Privacy</h3>
+        {changed && (
+          <Button size="sm" onClick={handleSave} disabled={busy}>
+            Save
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600">
+        Choose who can see your contact details in the alumni directory. &quot;My batch&quot;
+        means verified alumni who graduated in {user.gradYear}.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {CONTACT_FIELDS.map((field) => {
+          const column = VISIBILITY_COLUMNS[field];
+          return (
+            <div key={field} className="space-y-1">
+              <Label>{CONTACT_FIELD_LABELS[field]}</Label>
+              <Select
+                value={settings[column]}
+                onValueChange={(v) =>
+                  setSettings((prev) => ({ ...prev, [column]: v as Visibility }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VISIBILITIES.map((v) => (
+                    <SelectItem key={v} value={v}>
+                      {VISIBILITY_LABELS[v]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// --- Data export and account deletion ---
+function DeletionScheduledBanner({
+  deleteOn,
+  onCancelled,
+}: {
+  deleteOn: string;
+  onCancelled: () => void;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  const handleCancel = async () => {
+    setBusy(true);
+    try {
+      const res = await axios.delete("/api/profile/deletion");
+      onCancelled();
+      toast.success(res.data.message);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to cancel deletion.");
+      } else {
+        toast.error("Something went wrong. Try again later.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-red-50 border-l-4 border-red-500 p-5 rounded-md shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4 text-left">
+      <div className="text-red-900 space-y-1">
+        <h3 className="font-bold text-base">Account scheduled for deletion</h3>
+        <p className="text-sm text-red-800/90 max-w-xl">
+          Your account and uploaded documents will be deleted on{" "}
+          {new Date(deleteOn).toLocaleDateString()}. Your profile is hidden
+          from the directory until then.
+        </p>
+      </div>
+      <Button
+        onClick={handleCancel}
+        disabled={busy}
+        className="bg-red-600 hover:bg-red-700 text-white border-none whitespace-nowrap md:w-auto w-full"
+      >
+        Keep My Account
+      </Button>
+    </div>
+  );
+}
+
+function YourDataSection({
+  user,
+  onUpdate,
+}: {
+  user: UserProfile;
+  onUpdate: (changes: Partial<UserProfile>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [otp, setOtp] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    if (isAxiosError(error)) {
+      toast.error(error.response?.data?.message || fallback);
+    } else {
+      toast.error("Something went wrong. Try again later.");
+    }
+  };
+
+  const handleSendCode = async () => {
+    setBusy(true);
+    try {
+      const res = await axios.post("/api/profile/deletion");
+      setCodeSent(true);
+      toast.success(res.data.message);
+    } catch (error) {
+      showError(error, "Failed to send code.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (otp.length < 6) {
+      toast.error("Please enter the 6-digit code");
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await axios.post("/api/profile/deletion/confirm", { otp });
+      onUpdate({ deletionScheduledFor: res.data.deletionScheduledFor });
+      setOpen(false);
+      setCodeSent(false);
+      setOtp("");
+      toast.success(res.data.message);
+    } catch (error) {
+      showError(error, "Failed to confirm code.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="pt-6 space-y-4">
+      <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">Your Data</h3>
+      <p className="text-sm text-gray-600">
+        Download a copy of everything we store about you, or delete your account.
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <a href="/api/profile/export" download>
+          <Button variant="outline">Download My Data</Button>
+        </a>
+
+        {!user.deletionScheduledFor && (
+          <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="text-red-600 border-red-200 hover:bg-red-50">
+                Delete Account
+              </Button>
+            </DialogTrigger>
+
+            <DialogContent
+              className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[95vw] max-w-md bg-white p-6 shadow-xl sm:rounded-lg border border-gray-200"
+              style={{ transform: "translate(-50%, -50%)" }}
+            >
+              <DialogHeader>
+                <DialogTitle className="text-xl font-bold text-gray-900">
+                  Delete Account
+                </DialogTitle>
+              </DialogHeader>
+
+              {!codeSent ? (
+                <div className="space-y-4 mt-4">
+                  <p className="text-sm text-gray-600">
+                    Your profile leaves the directory right away. Your account
+                    and uploaded documents are deleted after a grace period, and
+                    you can cancel by signing in before then. We&apos;ll email
+                    a code to {user.email} to confirm.
+                  </p>
+                  <div className="flex justify-end gap-3 pt-4 border-t">
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleSendCode}
+                      className="bg-red-600 hover:bg-red-700 text-white"
+                      disabled={busy}
+                    >
+                      {busy ? "Sending..." : "Send Code"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <form onSubmit={handleConfirm} className="space-y-4 mt-4">
+                  <p className="text-sm text-gray-600">
+                    Enter the 6-digit code sent to {user.email}.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={otp} onChange={(value) => setOtp(value)}>
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((i) => (
+                          <InputOTPSlot key={i} index={i} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <div className="flex justify-end gap-3 pt-4 border-t">
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="bg-red-600 hover:bg-red-700 text-white"
+                      disabled={busy}
+                    >
+                      {busy ? "Confirming..." : "Delete My Account"}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // --- Refactored Dialog Component ---
 // This isolates the form logic and styling issues from the main page
 // --- Refactored Dialog Component ---
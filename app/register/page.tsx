@@ -1,13 +1,15 @@
 "use client";
 
+import { Suspense } from "react";
 import RegisterForm from "../components/RegisterForm";
 
+// Suspense is required because RegisterForm reads prefilled values from the search params
 export default function RegisterPage() {
   return (
     <div className="min-h-screen bg-gray-50 overflow-hidden">
-      {/* <div className="mx-auto"> */}
+      <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
         <RegisterForm />
-      </div>
-    // </div>
+      </Suspense>
+    </div>
   );
 }
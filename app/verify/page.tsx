@@ -11,6 +11,24 @@ import { Button } from "@/components/ui/button";
 import toast from "react-hot-toast";
 import { useRouter, useSearchParams } from "next/navigation";
 
+// e.g. 45 -> "45s", 125 -> "2m 5s", 7300 -> "2h 1m"
+function formatWait(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+// The server decides how long to wait before the next code can be sent
+function retryAfterFrom(error: unknown): number | null {
+  if (isAxiosError(error) && typeof error.response?.data?.retryAfter === "number") {
+    return error.response.data.retryAfter;
+  }
+  return null;
+}
+
 function VerifyOTP() {
   const searchParams = useSearchParams();
   const userIdParam = searchParams.get("userId");
@@ -18,33 +36,34 @@ function VerifyOTP() {
 
   const userId = userIdParam ? parseInt(userIdParam, 10) : null;
   const [otp, setOtp] = useState<string>("");
-  const [timer, setTimer] = useState<number>(60);
-  const [canResend, setCanResend] = useState<boolean>(false);
-  const [resendUsed, setResendUsed] = useState<boolean>(false);
+  const [timer, setTimer] = useState<number>(0);
 
   useEffect(() => {
     if (!userId) return;
     async function sendOtp() {
       try {
-        await axios.post("/api/otp", { userId });
+        const res = await axios.post("/api/otp", { userId });
         toast.success("OTP sent to your email!");
-        setCanResend(false);
-        setTimer(60);
-      } catch {
-        toast.error("Failed to send OTP");
+        setTimer(res.data.retryAfter ?? 60);
+      } catch (error) {
+        const wait = retryAfterFrom(error);
+        if (wait !== null) {
+          // a code was sent recently, the user can still enter it
+          setTimer(wait);
+        } else {
+          toast.error("Failed to send OTP");
+        }
       }
     }
     sendOtp();
   }, [userId]);
 
   useEffect(() => {
-    if (!resendUsed && timer > 0) {
-      const interval = setInterval(() => setTimer((prev) => prev - 1), 1000);
+    if (timer > 0) {
+      const interval = setInterval(() => setTimer((prev) => Math.max(0, prev - 1)), 1000);
       return () => clearInterval(interval);
-    } else if (timer === 0 && !resendUsed) {
-      setCanResend(true);
     }
-  }, [timer, resendUsed]);
+  }, [timer]);
 
   if (!userId) {
     return (
@@ -69,6 +88,11 @@ function VerifyOTP() {
         router.push("/profile");
       }
     } catch (error) {
+      const wait = retryAfterFrom(error);
+      if (wait !== null) {
+        setOtp("");
+        setTimer(wait);
+      }
       if (isAxiosError(error)) {
         toast.error(error.response?.data?.message || "Invalid OTP!");
       } else {
@@ -78,14 +102,19 @@ function VerifyOTP() {
   };
 
   const handleResend = async () => {
-    if (!userId || resendUsed) return;
+    if (!userId || timer > 0) return;
     try {
-      await axios.post("/api/otp", { userId });
+      const res = await axios.post("/api/otp", { userId });
       toast.success("OTP resent successfully!");
-      setResendUsed(true); // ✅ user has used the resend once
-      setCanResend(false);
-    } catch {
-      toast.error("Failed to resend OTP");
+      setTimer(res.data.retryAfter ?? 60);
+    } catch (error) {
+      const wait = retryAfterFrom(error);
+      if (wait !== null) setTimer(wait);
+      if (isAxiosError(error)) {
+        toast.error(error.response?.data?.message || "Failed to resend OTP");
+      } else {
+        toast.error("Failed to resend OTP");
+      }
     }
   };
 
@@ -115,13 +144,11 @@ function VerifyOTP() {
         </Button>
 
         <div className="flex justify-center items-center mt-2">
-          {!resendUsed && !canResend && (
+          {timer > 0 ? (
             <p className="text-gray-400 text-sm">
-              Resend available in {timer}s
+              Resend available in {formatWait(timer)}
             </p>
-          )}
-
-          {!resendUsed && canResend && (
+          ) : (
             <button
               onClick={handleResend}
               className="text-blue-500 text-sm underline opacity-90 hover:opacity-100 transition-all"
@@ -129,12 +156,6 @@ function VerifyOTP() {
               Resend OTP
             </button>
           )}
-          
-          {resendUsed && (
-             <p className="text-gray-400 text-sm">
-               Resend limit reached
-             </p>
-          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,81 @@
+import type { JWT } from "next-auth/jwt";
+import { can, hasRole, Permission, permissionsOf } from "./permissions";
+
+// Who may reach a route, from least to most restricted:
+//   anonymous       - anyone, signed in or not
+//   alumni          - any signed-in account
+//   email-verified  - signed in and confirmed their email
+//   approved        - email confirmed and proof approved by an admin
+//   staff           - holds at least one permission (the admin dashboard shell)
+//   <permission>    - holds that permission, see lib/permissions.ts
+// Admins pass every level.
+export type AccessLevel =
+  | "anonymous"
+  | "alumni"
+  | "email-verified"
+  | "approved"
+  | "staff"
+  | Permission;
+
+type RouteRule = {
+  path: string;
+  access: AccessLevel;
+};
+
+// The single place that decides which pages and APIs need which level.
+// The longest matching prefix wins; unlisted routes are public.
+export const routeTable: RouteRule[] = [
+  { path: "/admin", access: "staff" },
+  { path: "/api/admin", access: "staff" },
+  { path: "/admin/verifications", access: "verifications:review" },
+  { path: "/api/admin/verifications", access: "verifications:review" },
+  { path: "/admin/audit", access: "audit:read" },
+  { path: "/api/admin/audit", access: "audit:read" },
+  { path: "/admin/emails", access: "emails:preview" },
+  { path: "/api/admin/email-preview", access: "emails:preview" },
+  { path: "/api/admin/users", access: "users:assign-roles" },
+  { path: "/admin/locked-accounts", access: "users:unlock" },
+  { path: "/api/admin/locked-accounts", access: "users:unlock" },
+  { path: "/admin/invites", access: "invites:create" },
+  { path: "/api/admin/invites", access: "invites:create" },
+  { path: "/profile", access: "alumni" },
+  { path: "/api/profile", access: "alumni" },
+  { path: "/api/profile/proof", access: "email-verified" },
+  // only approved alumni are listed, so only they have privacy settings to choose
+  { path: "/api/profile/privacy", access: "approved" },
+  { path: "/Directory", access: "anonymous" },
+  { path: "/api/alumni", access: "anonymous" },
+  { path: "/api/invites", access: "anonymous" },
+];
+
+export function matchRoute(pathname: string): RouteRule | undefined {
+  return routeTable
+    .filter((r) => pathname === r.path || pathname.startsWith(`${r.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+export type AccessResult = "ok" | "unauthenticated" | "forbidden";
+
+export function checkAccess(token: JWT | null, level: AccessLevel): AccessResult {
+  if (level === "anonymous") return "ok";
+  if (!token?.id) return "unauthenticated";
+  if (hasRole(token, "admin")) return "ok";
+
+  switch (level) {
+    case "alumni":
+      return "ok";
+    case "email-verified":
+      return token.isEmailVerified ? "ok" : "forbidden";
+    case "approved":
+      return token.isEmailVerified && token.verified ? "ok" : "forbidden";
+    case "staff":
+      return permissionsOf(token).length > 0 ? "ok" : "forbidden";
+    default:
+      return can(token, level) ? "ok" : "forbidden";
+  }
+}
+
+// Levels that only staff can hold; signed-in alumni bounced from these go home
+export function isStaffLevel(level: AccessLevel) {
+  return !["anonymous", "alumni", "email-verified", "approved"].includes(level);
+}
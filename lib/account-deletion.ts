@@ -0,0 +1,66 @@
+import { UTApi } from "uploadthing/server";
+import { prisma } from "./prisma";
+
+// Days between confirming a deletion and the account actually being removed.
+// Signing in and cancelling within this window keeps the account.
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+export function deletionDate(from = new Date()) {
+  return new Date(from.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// UploadThing URLs end in /f/<file key>
+function uploadKey(url: string) {
+  const match = url.match(/\/f\/([^/?#]+)/);
+  return match ? match[1] : null;
+}
+
+async function deleteUploads(urls: string[]) {
+  const keys = [...new Set(urls.map(uploadKey).filter((k): k is string => !!k))];
+  if (keys.length === 0) return;
+
+  try {
+    await new UTApi().deleteFiles(keys);
+  } catch (err) {
+    // the account still goes; orphaned files can be removed from the dashboard
+    console.error("Failed to delete uploaded files:", keys, err);
+  }
+}
+
+// Removes the user, everything that belongs to them and their uploaded files.
+// Audit entries about the account are kept, the log is append-only.
+export async function purgeAccount(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { verificationRequests: { select: { proofPicture: true } } },
+  });
+  if (!user) return;
+
+  await deleteUploads(
+    [
+      user.profilePicture,
+      user.proofPicture,
+      ...user.verificationRequests.map((r) => r.proofPicture),
+    ].filter((u): u is string => !!u)
+  );
+
+  // login sessions go with the user (ON DELETE CASCADE)
+  await prisma.$transaction([
+    prisma.otp.deleteMany({ where: { userId } }),
+    prisma.verificationRequest.deleteMany({ where: { userId } }),
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+}
+
+// Purges every account whose grace period has run out. Returns how many.
+export async function purgeDueAccounts() {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    await purgeAccount(id);
+  }
+  return due.length;
+}
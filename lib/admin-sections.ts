@@ -0,0 +1,11 @@
+import type { Permission } from "./permissions";
+
+// Dashboard pages and the permission each one needs; the admin nav only
+// shows what the signed-in user can open.
+export const adminSections: { href: string; label: string; permission: Permission }[] = [
+  { href: "/admin/verifications", label: "Verifications", permission: "verifications:review" },
+  { href: "/admin/audit", label: "Audit Log", permission: "audit:read" },
+  { href: "/admin/emails", label: "Emails", permission: "emails:preview" },
+  { href: "/admin/locked-accounts", label: "Locked Accounts", permission: "users:unlock" },
+  { href: "/admin/invites", label: "Invites", permission: "invites:create" },
+];
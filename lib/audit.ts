@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Prisma, PrismaClient, User } from "@prisma/client";
+
+type AuditContext = {
+  actorId: number;
+  actorEmail: string;
+  action: string;
+};
+
+type Snapshot = Record<string, unknown>;
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+// User operations that change data and therefore end up in the audit log
+const USER_WRITES = new Set([
+  "create",
+  "update",
+  "upsert",
+  "updateMany",
+  "delete",
+  "deleteMany",
+]);
+
+// Columns that must never be copied into the log, only flagged as changed
+const SECRET_FIELDS = ["password", "twoFactorSecret", "twoFactorRecoveryCodes"];
+
+// Runs `fn` on behalf of an admin. Every User write made through the shared
+// prisma client while it runs is recorded in AuditLog under `action`.
+export function withAudit<T>(
+  actor: { id: number; email: string },
+  action: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  return auditContext.run(
+    { actorId: actor.id, actorEmail: actor.email, action },
+    fn
+  );
+}
+
+// AuditLog row for an admin action on something other than a User (invites,
+// ...), which withAudit cannot see. Pass to prisma.auditLog.create.
+export function auditEntry(
+  actor: { id: number; email: string },
+  action: string,
+  change: { before?: Snapshot | null; after?: Snapshot | null }
+) {
+  return {
+    actorId: actor.id,
+    actorEmail: actor.email,
+    action,
+    before: toJson(change.before ?? null),
+    after: toJson(change.after ?? null),
+  };
+}
+
+function snapshot(user?: User): Snapshot | null {
+  if (!user) return null;
+
+  const row: Snapshot = JSON.parse(JSON.stringify(user));
+  for (const field of SECRET_FIELDS) {
+    if (field in row) row[field] = "[redacted]";
+  }
+  return row;
+}
+
+// Keeps only the columns that differ, so each entry reads as "what changed"
+function changes(before: Snapshot | null, after: Snapshot | null) {
+  if (!before || !after) return { before, after };
+
+  const b: Snapshot = {};
+  const a: Snapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      b[key] = before[key];
+      a[key] = after[key];
+    }
+  }
+  return { before: b, after: a };
+}
+
+function toJson(value: Snapshot | null) {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonObject);
+}
+
+// `base` must be the plain client so the extension's own reads and writes
+// don't run back through it.
+export function auditExtension(base: PrismaClient) {
+  return Prisma.defineExtension({
+    name: "audit",
+    query: {
+      user: {
+        async $allOperations({ operation, args, query }) {
+          const ctx = auditContext.getStore();
+          if (!ctx || !USER_WRITES.has(operation)) return query(args);
+
+          const where = (args as { where?: Prisma.UserWhereInput }).where;
+          const before = where ? await base.user.findMany({ where }) : [];
+
+          const result = await query(args);
+
+          const ids = new Set(before.map((u) => u.id));
+          if (result && typeof result === "object" && "id" in result) {
+            ids.add(result.id as number);
+          }
+
+          const after = operation.startsWith("delete")
+            ? []
+            : await base.user.findMany({ where: { id: { in: [...ids] } } });
+
+          const entries = [...ids]
+            .map((id) => ({
+              targetUserId: id,
+              ...changes(
+                snapshot(before.find((u) => u.id === id)),
+                snapshot(after.find((u) => u.id === id))
+              ),
+            }))
+            .filter(
+              (e) => !e.before || !e.after || Object.keys(e.after).length > 0
+            );
+
+          if (entries.length > 0) {
+            await base.auditLog.createMany({
+              data: entries.map((e) => ({
+                actorId: ctx.actorId,
+                actorEmail: ctx.actorEmail,
+                action: ctx.action,
+                targetUserId: e.targetUserId,
+                before: toJson(e.before),
+                after: toJson(e.after),
+              })),
+            });
+          }
+
+          return result;
+        },
+      },
+      auditLog: {
+        async $allOperations({ operation, args, query }) {
+          if (
+            operation.startsWith("update") ||
+            operation.startsWith("delete") ||
+            operation === "upsert"
+          ) {
+            throw new Error("AuditLog is append-only");
+          }
+          return query(args);
+        },
+      },
+    },
+  });
+}
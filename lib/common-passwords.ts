@@ -0,0 +1,32 @@
+// Frequently breached passwords that still satisfy the length rule in
+// userSchema. Kept local so checking a password never sends it anywhere.
+const COMMON_PASSWORDS = new Set([
+  "12345678", "123456789", "1234567890", "12345678910", "123123123", "11111111",
+  "00000000", "88888888", "87654321", "987654321", "1q2w3e4r", "1q2w3e4r5t",
+  "1qaz2wsx", "qwertyuiop", "qwerty123", "qwerty1234", "qwertyui", "asdfghjkl",
+  "asdf1234", "zxcvbnm1", "password", "password1", "password12", "password123",
+  "password@123", "password!", "passw0rd", "p@ssw0rd", "p@ssword", "pass@123",
+  "iloveyou", "iloveyou1", "princess", "sunshine", "football", "baseball",
+  "superman", "starwars", "whatever", "trustno1", "letmein1", "welcome1",
+  "welcome123", "welcome@123", "admin123", "admin@123", "administrator",
+  "abc12345", "abcd1234", "abcdefgh", "aa123456", "a1234567", "qazwsxedc",
+  "michael1", "jennifer", "computer", "internet", "mustang1", "shadow12",
+  "master12", "monkey12", "dragon12", "football1", "charlie1", "liverpool",
+  "chelsea1", "arsenal1", "manchester", "cricket1", "sachin10", "india123",
+  "india@123", "bharat123", "krishna1", "ganesh123", "hanuman1", "jaishriram",
+  "jaimatadi", "omsairam", "saibaba1", "mahadev1", "chhattisgarh", "bilaspur",
+  "bilaspur123", "gecbilaspur", "engineer", "engineering", "student1",
+  "college123", "alumni123", "changeme", "changeme1", "default1", "secret12",
+  "11223344", "12121212", "12341234", "11112222", "147258369", "159753456",
+  "789456123", "741852963", "963852741", "qwer1234", "zaq12wsx", "googleme",
+  "facebook", "instagram", "samsung1", "iphone12", "nokia123", "lovely123",
+  "loveyou1", "mylove12", "babygirl", "sweetheart", "beautiful", "butterfly",
+  "basketball", "hello123", "hello@123", "helloworld", "test1234", "testtest",
+  "temp1234", "q1w2e3r4", "1a2b3c4d", "x1y2z3w4", "asdasdasd", "aaaaaaaa",
+  "zzzzzzzz", "abc@1234", "abc@12345", "pakistan", "hindustan", "newdelhi",
+  "mumbai123", "raipur123", "bangalore",
+]);
+
+export function isCommonPassword(password: string) {
+  return COMMON_PASSWORDS.has(password.trim().toLowerCase());
+}
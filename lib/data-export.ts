@@ -0,0 +1,59 @@
+import { prisma } from "./prisma";
+
+// Everything stored about one user, for the "Download my data" action.
+// Tables that gain a userId later (RSVPs, ...) belong here as well.
+export async function buildDataExport(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    // hashes and secrets are credentials, not personal data
+    omit: { password: true, twoFactorSecret: true, twoFactorRecoveryCodes: true },
+  });
+  if (!user) return null;
+
+  const [verificationRequests, otps, sessions, auditEntries, invites] = await Promise.all([
+    prisma.verificationRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      omit: { reviewedById: true },
+    }),
+    // codes themselves are never exported, only when and why one was sent
+    prisma.otp.findMany({
+      where: { userId },
+      select: { purpose: true, expires: true, attempts: true },
+    }),
+    prisma.loginSession.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      omit: { userId: true },
+    }),
+    prisma.auditLog.findMany({
+      where: { targetUserId: userId },
+      orderBy: { createdAt: "asc" },
+      select: { action: true, before: true, after: true, createdAt: true },
+    }),
+    // links are credentials for other people, only what they were for is exported
+    prisma.invite.findMany({
+      where: { createdById: userId },
+      orderBy: { createdAt: "asc" },
+      omit: { token: true, createdById: true },
+    }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    uploads: [
+      user.profilePicture && { type: "profile-picture", url: user.profilePicture },
+      ...verificationRequests.map((r) => ({
+        type: "proof-document",
+        url: r.proofPicture,
+        uploadedAt: r.createdAt,
+      })),
+    ].filter(Boolean),
+    verificationRequests,
+    otpHistory: otps,
+    sessions,
+    accountChanges: auditEntries,
+    invitesCreated: invites,
+  };
+}
@@ -0,0 +1,75 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { Viewer } from "./privacy";
+import { escapeLike, visibleSql, type TextSearch } from "./search";
+
+// The filters of GET /api/alumni; unset fields don't filter
+export type DirectoryFilter = {
+  yearFrom?: number;
+  yearTo?: number;
+  branches: string[];
+  organisation?: string;
+  location?: string;
+  updatedSince?: Date;
+};
+
+export type FacetField = "gradYear" | "branch" | "organisation" | "location";
+
+// Listings shown under `filter` and, when searching, matching the search.
+// `except` leaves one filter out, see lib/facets.ts.
+export function directoryWhere(
+  filter: DirectoryFilter,
+  viewer: Viewer,
+  members: boolean,
+  search: TextSearch | null,
+  except?: FacetField
+) {
+  const conditions = [
+    // leaving accounts disappear as soon as the deletion is confirmed
+    Prisma.sql`"verified" AND "isEmailVerified" AND "deletionScheduledFor" IS NULL`,
+  ];
+
+  if (except !== "gradYear" && filter.yearFrom !== undefined) {
+    conditions.push(Prisma.sql`"gradYear" >= ${filter.yearFrom}`);
+  }
+  if (except !== "gradYear" && filter.yearTo !== undefined) {
+    conditions.push(Prisma.sql`"gradYear" <= ${filter.yearTo}`);
+  }
+  if (except !== "branch" && filter.branches.length > 0) {
+    conditions.push(Prisma.sql`"branch" IN (${Prisma.join(filter.branches)})`);
+  }
+  if (except !== "organisation" && filter.organisation) {
+    conditions.push(Prisma.sql`"organisation" ILIKE ${`%${escapeLike(filter.organisation)}%`}`);
+  }
+  // locations are not part of the public view, and only match where the
+  // viewer could see them
+  if (except !== "location" && filter.location && members && viewer) {
+    conditions.push(
+      Prisma.sql`"location" ILIKE ${`%${escapeLike(filter.location)}%`} AND ${visibleSql("locationVisibility", viewer)}`
+    );
+  }
+  if (filter.updatedSince) {
+    conditions.push(Prisma.sql`"profileUpdatedAt" >= ${filter.updatedSince}`);
+  }
+  if (search) {
+    conditions.push(search.match);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+// One page of listing ids in `orderBy` order, and how many listings there are
+export async function directoryPage(where: Prisma.Sql, orderBy: Prisma.Sql, page: number, limit: number) {
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<{ id: number }[]>`
+      SELECT "id" FROM "User"
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT count(*)::int AS "total" FROM "User" WHERE ${where}
+    `,
+  ]);
+  return { ids: rows.map((r) => r.id), total };
+}
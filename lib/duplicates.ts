@@ -0,0 +1,102 @@
+import { prisma } from "./prisma";
+
+export type DuplicateReason = "mobile" | "name";
+
+type Applicant = {
+  fullName: string;
+  gradYear: number;
+  branch: string;
+  mobile: string;
+};
+
+// A single typo is forgiven only in name parts at least this long; short
+// parts like "Amit"/"Ajit" are different names, not misspellings
+const MIN_FUZZY_TOKEN_LENGTH = 5;
+
+// Honorifics and punctuation vary between registrations of the same person
+const NAME_NOISE = /\b(mr|mrs|ms|dr|er|prof|shri|smt)\b\.?/g;
+
+function nameTokens(name: string) {
+  return name
+    .toLowerCase()
+    .replace(NAME_NOISE, " ")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort();
+}
+
+// last 10 digits, so +91 / leading 0 variants still match
+function normaliseMobile(mobile: string) {
+  return mobile.replace(/\D/g, "").slice(-10);
+}
+
+function levenshtein(a: string, b: string) {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+function sameToken(a: string, b: string) {
+  if (a === b) return true;
+  return (
+    a.length >= MIN_FUZZY_TOKEN_LENGTH &&
+    b.length >= MIN_FUZZY_TOKEN_LENGTH &&
+    a[0] === b[0] &&
+    levenshtein(a, b) <= 1
+  );
+}
+
+// Same person if every part of the name matches, in any order, allowing at
+// most one misspelt part. Initials and single-word names must match exactly.
+export function sameName(a: string, b: string) {
+  const x = nameTokens(a);
+  const y = nameTokens(b);
+  if (x.length < 2 || x.length !== y.length) return false;
+  if (x.join(" ") === y.join(" ")) return true;
+
+  const unmatched = x.filter((t) => !y.includes(t));
+  const rest = y.filter((t) => !x.includes(t));
+  return unmatched.length === 1 && rest.length === 1 && sameToken(unmatched[0], rest[0]);
+}
+
+// Existing accounts that probably belong to the same person: the same mobile
+// number, or the same name (give or take one typo) in the same batch and branch.
+export async function findProbableDuplicates(applicant: Applicant) {
+  const mobile = normaliseMobile(applicant.mobile);
+
+  const candidates = await prisma.user.findMany({
+    where: {
+      OR: [
+        { mobile: { endsWith: mobile } },
+        {
+          gradYear: applicant.gradYear,
+          branch: { equals: applicant.branch, mode: "insensitive" },
+        },
+      ],
+    },
+    select: { id: true, fullName: true, mobile: true },
+  });
+
+  const matches: { matchId: number; reason: DuplicateReason }[] = [];
+  for (const c of candidates) {
+    if (mobile && normaliseMobile(c.mobile) === mobile) {
+      matches.push({ matchId: c.id, reason: "mobile" });
+    } else if (sameName(c.fullName, applicant.fullName)) {
+      matches.push({ matchId: c.id, reason: "name" });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,12 @@
+import type { Prisma } from "@prisma/client";
+
+// One form for every address we store or look up: trimmed and lower-cased
+export function normaliseEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+// Accounts registered before addresses were normalised may still hold mixed
+// case, so lookups ignore case rather than trusting the stored form
+export function emailMatch(email: string): Prisma.StringFilter {
+  return { equals: normaliseEmail(email), mode: "insensitive" };
+}
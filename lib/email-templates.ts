@@ -0,0 +1,254 @@
+import type { MailMessage } from "./mail";
+
+export type RenderedEmail = Pick<MailMessage, "subject" | "htmlContent" | "textContent">;
+
+// Content is described once as blocks and rendered to both HTML and plain
+// text, so the text fallback never drifts from the HTML version.
+type Block =
+  | { type: "text"; text: string }
+  | { type: "code"; code: string }
+  | { type: "button"; label: string; url: string }
+  | { type: "quote"; text: string }
+  | { type: "note"; text: string };
+
+export function appUrl(path = "/") {
+  return `${process.env.NEXTAUTH_URL || "http://localhost:3000"}${path}`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderBlockHtml(block: Block) {
+  switch (block.type) {
+    case "text":
+      return `<p style="margin:0 0 16px 0; color:#374151;">${escapeHtml(block.text)}</p>`;
+    case "code":
+      return `
+          <div style="display:flex;justify-content:center;margin:20px 0;">
+            <div style="background:#f8fafc;border-radius:8px;padding:18px 26px;box-shadow:0 1px 3px rgba(2,6,23,0.06);">
+              <p style="margin:0;text-align:center;font-size:28px;letter-spacing:3px;font-weight:700;color:#0b61d6;">${escapeHtml(block.code)}</p>
+            </div>
+          </div>`;
+    case "button":
+      return `
+          <div style="text-align:center;margin:20px 0;">
+            <a href="${escapeHtml(block.url)}" style="background:#2563eb;color:#fff;text-decoration:none;padding:10px 20px;border-radius:6px;font-weight:600;">${escapeHtml(block.label)}</a>
+          </div>`;
+    case "quote":
+      return `<blockquote style="margin:0 0 16px 0;padding:12px 16px;border-left:4px solid #ef4444;background:#fef2f2;color:#7f1d1d;">${escapeHtml(block.text)}</blockquote>`;
+    case "note":
+      return `<p style="color:#475569;font-size:13px;margin-top:12px;">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+function renderBlockText(block: Block) {
+  switch (block.type) {
+    case "text":
+    case "note":
+      return block.text;
+    case "code":
+      return `    ${block.code}`;
+    case "button":
+      return `${block.label}: ${block.url}`;
+    case "quote":
+      return `> ${block.text}`;
+  }
+}
+
+// Shared branded layout for every email we send
+function render(subject: string, heading: string, blocks: Block[]): RenderedEmail {
+  const emailFromEnv = process.env.EMAIL_FROM;
+
+  const htmlContent = `
+      <div style="font-family: Helvetica, Arial, sans-serif; color:#111; line-height:1.4;">
+        <div style="max-width:600px;margin:0 auto;padding:24px;">
+          <div style="text-align:center;">
+            <h2 style="margin:0 0 16px 0; font-size:20px; color:#0f172a;">GEC Bilaspur — ${escapeHtml(heading)}</h2>
+          </div>
+          ${blocks.map(renderBlockHtml).join("\n          ")}
+
+          <hr style="border:none;border-top:1px solid #e6eef9;margin:20px 0;" />
+
+          <p style="font-size:12px;color:#9ca3af;margin:0;">
+            GEC Bilaspur Alumni Association<br/>
+            ${emailFromEnv ? escapeHtml(emailFromEnv) : ""}
+          </p>
+        </div>
+      </div>
+    `;
+
+  const textContent = [
+    `GEC Bilaspur — ${heading}`,
+    ...blocks.map(renderBlockText),
+    "--",
+    "GEC Bilaspur Alumni Association",
+  ].join("\n\n");
+
+  return { subject, htmlContent, textContent };
+}
+
+export const emailTemplates = {
+  verificationCode: (p: { name: string; code: string; ttlMinutes: number }) =>
+    render("Your GEC Bilaspur verification code", "Email Verification", [
+      { type: "text", text: `Hi ${p.name}, use the code below to verify your email. It will expire in ${p.ttlMinutes} minutes.` },
+      { type: "code", code: p.code },
+      { type: "note", text: "If you didn't request this code, you can safely ignore this email." },
+    ]),
+
+  registrationReceived: (p: { name: string; verifyUrl: string }) =>
+    render("We received your GEC Bilaspur Alumni registration", "Registration Received", [
+      { type: "text", text: `Hi ${p.name}, thank you for registering with the GEC Bilaspur Alumni network.` },
+      { type: "text", text: "Next, verify your email address. Once that is done an administrator will review your proof document." },
+      { type: "button", label: "Verify email", url: p.verifyUrl },
+    ]),
+
+  emailVerified: (p: { name: string }) =>
+    render("Your email is verified", "Email Verified", [
+      { type: "text", text: `Hi ${p.name}, your email address has been verified.` },
+      { type: "text", text: "An administrator will now review your proof document. We'll email you as soon as your registration is approved." },
+    ]),
+
+  registrationApproved: (p: { name: string; directoryUrl: string }) =>
+    render("Welcome to the GEC Bilaspur Alumni network", "Registration Approved", [
+      { type: "text", text: `Hi ${p.name}, your registration has been approved.` },
+      { type: "text", text: "Your profile is now listed in the Alumni Directory, where you can also find and reconnect with your batchmates." },
+      { type: "button", label: "Open the directory", url: p.directoryUrl },
+    ]),
+
+  registrationRejected: (p: { name: string; reason: string; profileUrl: string }) =>
+    render("Your GEC Bilaspur Alumni registration needs attention", "Registration Not Approved", [
+      { type: "text", text: `Hi ${p.name}, we could not approve your registration with the document you provided. The reviewer left this note:` },
+      { type: "quote", text: p.reason },
+      { type: "text", text: "You can upload a new document from your profile page to request another review." },
+      { type: "button", label: "Go to my profile", url: p.profileUrl },
+    ]),
+
+  passwordReset: (p: { name: string; code: string; resetUrl: string; ttlMinutes: number }) =>
+    render("Reset your GEC Bilaspur Alumni password", "Password Reset", [
+      { type: "text", text: `Hi ${p.name}, use the code below or the button to choose a new password. It will expire in ${p.ttlMinutes} minutes.` },
+      { type: "code", code: p.code },
+      { type: "button", label: "Reset password", url: p.resetUrl },
+      { type: "note", text: "If you didn't request a password reset, you can safely ignore this email. Your password will not change." },
+    ]),
+
+  emailChange: (p: { name: string; code: string; newEmail: string; ttlMinutes: number }) =>
+    render("Confirm your new GEC Bilaspur Alumni email", "Confirm Email Change", [
+      { type: "text", text: `Hi ${p.name}, you asked to change your sign-in email to ${p.newEmail}. Enter the code below to confirm it. It will expire in ${p.ttlMinutes} minutes.` },
+      { type: "code", code: p.code },
+      { type: "note", text: "Until you confirm, you keep signing in with your current email. If you didn't ask for this, ignore this email." },
+    ]),
+
+  emailChanged: (p: { name: string; oldEmail: string; newEmail: string }) =>
+    render("Your GEC Bilaspur Alumni email was changed", "Email Changed", [
+      { type: "text", text: `Hi ${p.name}, the sign-in email for your alumni account was changed from ${p.oldEmail} to ${p.newEmail}.` },
+      { type: "text", text: `From now on, sign in with ${p.newEmail}.` },
+      { type: "note", text: "If you didn't make this change, reset your password immediately and contact the alumni association." },
+    ]),
+
+  passwordChanged: (p: { name: string; resetUrl: string }) =>
+    render("Your GEC Bilaspur Alumni password was changed", "Password Changed", [
+      { type: "text", text: `Hi ${p.name}, the password for your alumni account was just changed. Other devices signed in to your account have been signed out.` },
+      { type: "note", text: "If you didn't make this change, reset your password right away and contact the alumni association." },
+      { type: "button", label: "Reset password", url: p.resetUrl },
+    ]),
+
+  accountDeletionCode: (p: { name: string; code: string; ttlMinutes: number; graceDays: number }) =>
+    render("Confirm deleting your GEC Bilaspur Alumni account", "Delete Account", [
+      { type: "text", text: `Hi ${p.name}, enter the code below to confirm that you want to delete your alumni account. It will expire in ${p.ttlMinutes} minutes.` },
+      { type: "code", code: p.code },
+      { type: "text", text: `Your account and uploaded documents are removed ${p.graceDays} days after you confirm. You can cancel by signing in before then.` },
+      { type: "note", text: "If you didn't ask for this, ignore this email and consider changing your password." },
+    ]),
+
+  accountDeletionScheduled: (p: { name: string; deleteOn: string; profileUrl: string }) =>
+    render("Your GEC Bilaspur Alumni account will be deleted", "Account Deletion Scheduled", [
+      { type: "text", text: `Hi ${p.name}, your alumni account is scheduled for deletion on ${p.deleteOn}. Your profile is already hidden from the directory.` },
+      { type: "text", text: "Changed your mind? Sign in and cancel the deletion from your profile page before that date." },
+      { type: "button", label: "Go to my profile", url: p.profileUrl },
+    ]),
+
+  loginCode: (p: { name: string; code: string; loginUrl: string; ttlMinutes: number }) =>
+    render("Your GEC Bilaspur Alumni sign-in code", "Sign In", [
+      { type: "text", text: `Hi ${p.name}, use the code below or the button to sign in. It works once and expires in ${p.ttlMinutes} minutes.` },
+      { type: "code", code: p.code },
+      { type: "button", label: "Sign in", url: p.loginUrl },
+      { type: "note", text: "If you didn't try to sign in, you can safely ignore this email." },
+    ]),
+
+  suspiciousLogins: (p: { name: string; attempts: number; lockedMinutes: number; resetUrl: string }) =>
+    render("Failed sign-in attempts on your GEC Bilaspur Alumni account", "Suspicious Sign-in Attempts", [
+      { type: "text", text: `Hi ${p.name}, there were ${p.attempts} failed attempts to sign in to your alumni account with a wrong password or code.` },
+      { type: "text", text: `To protect it, sign-in is paused for ${p.lockedMinutes} minutes. Resetting your password ends the pause straight away.` },
+      { type: "text", text: "If this wasn't you, someone may know your email address. Choosing a new, unique password is a good idea." },
+      { type: "button", label: "Reset password", url: p.resetUrl },
+    ]),
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+// Sample data for the admin preview route
+export const templatePreviews: Record<EmailTemplateName, () => RenderedEmail> = {
+  verificationCode: () =>
+    emailTemplates.verificationCode({ name: "Asha Verma", code: "482913", ttlMinutes: 10 }),
+  registrationReceived: () =>
+    emailTemplates.registrationReceived({ name: "Asha Verma", verifyUrl: appUrl("/verify?userId=1") }),
+  emailVerified: () => emailTemplates.emailVerified({ name: "Asha Verma" }),
+  registrationApproved: () =>
+    emailTemplates.registrationApproved({ name: "Asha Verma", directoryUrl: appUrl("/Directory") }),
+  registrationRejected: () =>
+    emailTemplates.registrationRejected({
+      name: "Asha Verma",
+      reason: "The uploaded marksheet is unreadable. Please upload a clearer scan.",
+      profileUrl: appUrl("/profile"),
+    }),
+  passwordReset: () =>
+    emailTemplates.passwordReset({
+      name: "Asha Verma",
+      code: "731054",
+      resetUrl: appUrl("/forgot-password?email=asha%40example.com&code=731054"),
+      ttlMinutes: 10,
+    }),
+  emailChange: () =>
+    emailTemplates.emailChange({
+      name: "Asha Verma",
+      code: "205718",
+      newEmail: "asha.verma@example.org",
+      ttlMinutes: 10,
+    }),
+  emailChanged: () =>
+    emailTemplates.emailChanged({
+      name: "Asha Verma",
+      oldEmail: "asha@example.com",
+      newEmail: "asha.verma@example.org",
+    }),
+  passwordChanged: () =>
+    emailTemplates.passwordChanged({ name: "Asha Verma", resetUrl: appUrl("/forgot-password") }),
+  accountDeletionCode: () =>
+    emailTemplates.accountDeletionCode({ name: "Asha Verma", code: "519264", ttlMinutes: 10, graceDays: 14 }),
+  accountDeletionScheduled: () =>
+    emailTemplates.accountDeletionScheduled({
+      name: "Asha Verma",
+      deleteOn: "2 November 2026",
+      profileUrl: appUrl("/profile"),
+    }),
+  loginCode: () =>
+    emailTemplates.loginCode({
+      name: "Asha Verma",
+      code: "604381",
+      loginUrl: appUrl("/login?email=asha%40example.com&otp=604381"),
+      ttlMinutes: 10,
+    }),
+  suspiciousLogins: () =>
+    emailTemplates.suspiciousLogins({
+      name: "Asha Verma",
+      attempts: 10,
+      lockedMinutes: 15,
+      resetUrl: appUrl("/forgot-password"),
+    }),
+};
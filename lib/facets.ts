@@ -0,0 +1,60 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { Viewer } from "./privacy";
+import { visibleSql, type TextSearch } from "./search";
+import { directoryWhere, type DirectoryFilter, type FacetField } from "./directory";
+
+export type FacetCount<T> = { value: T; count: number };
+
+export type DirectoryFacets = {
+  branch: FacetCount<string>[];
+  gradYear: FacetCount<number>[];
+  location: FacetCount<string>[];
+  organisation: FacetCount<string>[];
+};
+
+// Only the busiest values of the open-ended facets are returned
+const TOP_VALUES = 10;
+
+function countBy<T>(field: FacetField, where: Prisma.Sql, orderBy: Prisma.Sql, take?: number) {
+  const column = Prisma.raw(`"${field}"`);
+  return prisma.$queryRaw<FacetCount<T>[]>`
+    SELECT ${column} AS "value", count(*)::int AS "count"
+    FROM "User"
+    WHERE ${where}
+    GROUP BY ${column}
+    ORDER BY ${orderBy}
+    ${take ? Prisma.sql`LIMIT ${take}` : Prisma.empty}
+  `;
+}
+
+// Listing counts per branch, graduation year, location and organisation under
+// the current directory filter and search. Each facet leaves out its own
+// filter, so it keeps offering its other values instead of collapsing to the
+// one already picked. Locations only count where the viewer could see them,
+// and not at all in the public view.
+export async function directoryFacets(
+  filter: DirectoryFilter,
+  viewer: Viewer,
+  members: boolean,
+  search: TextSearch | null
+): Promise<DirectoryFacets> {
+  const whereWithout = (field: FacetField) => directoryWhere(filter, viewer, members, search, field);
+  const byCount = Prisma.sql`"count" DESC, "value" ASC`;
+
+  const [branch, gradYear, location, organisation] = await Promise.all([
+    countBy<string>("branch", whereWithout("branch"), Prisma.sql`"value" ASC`),
+    countBy<number>("gradYear", whereWithout("gradYear"), Prisma.sql`"value" DESC`),
+    members && viewer
+      ? countBy<string>(
+          "location",
+          Prisma.sql`${whereWithout("location")} AND "location" IS NOT NULL AND ${visibleSql("locationVisibility", viewer)}`,
+          byCount,
+          TOP_VALUES
+        )
+      : [],
+    countBy<string>("organisation", whereWithout("organisation"), byCount, TOP_VALUES),
+  ]);
+
+  return { branch, gradYear, location, organisation };
+}
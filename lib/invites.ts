@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import type { Invite } from "@prisma/client";
+import { prisma } from "./prisma";
+import { appUrl } from "./email-templates";
+
+export type InviteState = "active" | "expired" | "revoked" | "used";
+
+export function generateInviteToken() {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function inviteUrl(token: string) {
+  return appUrl(`/register?invite=${token}`);
+}
+
+export function inviteState(invite: Pick<Invite, "revokedAt" | "expiresAt" | "uses" | "maxUses">): InviteState {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt <= new Date()) return "expired";
+  if (invite.uses >= invite.maxUses) return "used";
+  return "active";
+}
+
+// The invite behind a registration link, or null when it can no longer be used
+export async function findActiveInvite(token: string) {
+  const invite = await prisma.invite.findUnique({
+    where: { token },
+    include: { createdBy: { select: { fullName: true } } },
+  });
+  if (!invite || inviteState(invite) !== "active") return null;
+  return invite;
+}
+
+// Takes one use of the invite. The check and the increment are a single
+// statement, so two people racing for the last use cannot both get it.
+export async function claimInvite(id: number) {
+  const { count } = await prisma.invite.updateMany({
+    where: {
+      id,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      uses: { lt: prisma.invite.fields.maxUses },
+    },
+    data: { uses: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+export function releaseInvite(id: number) {
+  return prisma.invite.update({
+    where: { id },
+    data: { uses: { decrement: 1 } },
+  });
+}
@@ -0,0 +1,93 @@
+import { headers } from "next/headers";
+import { prisma } from "./prisma";
+import { sendEmail } from "./mail";
+import { appUrl, emailTemplates } from "./email-templates";
+import { clearHits, countHits, getClientIp, recordHit } from "./rate-limit";
+
+// Failed sign-ins (wrong password or second-factor code) are counted per account and per IP over this window
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+
+// Failures answered straight away; after that each one waits twice as long
+const FREE_FAILURES = 3;
+const MAX_DELAY_SECONDS = 8;
+
+// Failures on one account before sign-in is paused for LOCK_MINUTES
+const ACCOUNT_LOCK_THRESHOLD = 10;
+export const LOCK_MINUTES = 15;
+
+// Failures from one IP, across all accounts, before it is refused outright
+const IP_BLOCK_THRESHOLD = 50;
+
+const accountKey = (userId: number) => `login-fail:user:${userId}`;
+const ipKey = (ip: string) => `login-fail:ip:${ip}`;
+
+// authorize() gets no Request in the app router, read it from the headers
+export async function loginIp() {
+  try {
+    return getClientIp({ headers: await headers() });
+  } catch {
+    return "unknown";
+  }
+}
+
+type LoginAccount = { id: number; lockedUntil: Date | null };
+
+// Why a sign-in attempt must be refused before any credential is checked
+export async function loginBlock(user: LoginAccount | null, ip: string) {
+  if (user?.lockedUntil && user.lockedUntil > new Date()) return "AccountLocked";
+  if ((await countHits(ipKey(ip), FAILURE_WINDOW_SECONDS)) >= IP_BLOCK_THRESHOLD) {
+    return "TooManyAttempts";
+  }
+  return null;
+}
+
+// Records a wrong password, second-factor code or unknown email, locks the account once it
+// crosses the threshold and tells the owner, then holds the response back
+// for longer the more failures there have been.
+export async function recordFailedLogin(user: LoginAccount | null, ip: string) {
+  await recordHit(ipKey(ip));
+  let failures = await countHits(ipKey(ip), FAILURE_WINDOW_SECONDS);
+
+  if (user) {
+    await recordHit(accountKey(user.id));
+    const accountFailures = await countHits(accountKey(user.id), FAILURE_WINDOW_SECONDS);
+    failures = Math.max(failures, accountFailures);
+
+    if (accountFailures >= ACCOUNT_LOCK_THRESHOLD) {
+      await lockAccount(user.id, accountFailures);
+    }
+  }
+
+  const extra = failures - FREE_FAILURES;
+  if (extra > 0) {
+    const seconds = Math.min(2 ** (extra - 1), MAX_DELAY_SECONDS);
+    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+  }
+}
+
+async function lockAccount(userId: number, attempts: number) {
+  const locked = await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: new Date(Date.now() + LOCK_MINUTES * 60 * 1000) },
+  });
+  // the count starts over once the lock ends
+  await clearHits(accountKey(userId));
+
+  const sent = await sendEmail({
+    to: { email: locked.email, name: locked.fullName },
+    ...emailTemplates.suspiciousLogins({
+      name: locked.fullName,
+      attempts,
+      lockedMinutes: LOCK_MINUTES,
+      resetUrl: appUrl("/forgot-password"),
+    }),
+  });
+  if (!sent.ok) {
+    console.error("Suspicious sign-in email failed for user", userId);
+  }
+}
+
+// After a successful sign-in, an admin unlock or a password reset
+export async function clearLoginFailures(userId: number) {
+  await clearHits(accountKey(userId));
+}
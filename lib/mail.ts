@@ -0,0 +1,154 @@
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+const BREVO_API = "https://api.brevo.com/v3/smtp/email";
+
+export type MailMessage = {
+  to: { email: string; name?: string };
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+};
+
+export type SendResult = { ok: true } | { ok: false; detail: string };
+
+type Sender = { name: string; email: string };
+
+type MailTransport = (message: MailMessage, sender: Sender) => Promise<SendResult>;
+
+// Brevo HTTP API, needs BREVO_API_KEY
+const brevoTransport: MailTransport = async (message, sender) => {
+  const BREVO_KEY = process.env.BREVO_API_KEY;
+
+  if (!BREVO_KEY) {
+    console.error("Brevo API key missing (BREVO_API_KEY)");
+    return { ok: false, detail: "Email provider not configured" };
+  }
+
+  const brevoBody = {
+    sender,
+    to: [{ email: message.to.email, name: message.to.name || undefined }],
+    subject: message.subject,
+    htmlContent: message.htmlContent,
+    textContent: message.textContent,
+  };
+
+  const resp = await fetch(BREVO_API, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "api-key": BREVO_KEY,
+    },
+    body: JSON.stringify(brevoBody),
+  });
+
+  const respBody = await resp.text().catch(() => "");
+
+  if (!resp.ok) {
+    console.error("Brevo error:", resp.status, respBody);
+    return { ok: false, detail: respBody };
+  }
+
+  return { ok: true };
+};
+
+let smtp: nodemailer.Transporter | null = null;
+
+// Any SMTP server, configured through SMTP_HOST / SMTP_PORT / SMTP_USER /
+// SMTP_PASS / SMTP_SECURE
+const smtpTransport: MailTransport = async (message, sender) => {
+  if (!process.env.SMTP_HOST) {
+    console.error("SMTP host missing (SMTP_HOST)");
+    return { ok: false, detail: "Email provider not configured" };
+  }
+
+  smtp ??= nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  try {
+    await smtp.sendMail({
+      from: { name: sender.name, address: sender.email },
+      to: { name: message.to.name ?? "", address: message.to.email },
+      subject: message.subject,
+      html: message.htmlContent,
+      text: message.textContent,
+    });
+    return { ok: true };
+  } catch (err) {
+    console.error("SMTP error:", err);
+    return { ok: false, detail: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+function outboxDir() {
+  return path.resolve(process.env.MAIL_OUTBOX_DIR || ".outbox");
+}
+
+// Development / test backend: nothing leaves the machine. Each message is
+// written as JSON to MAIL_OUTBOX_DIR (default .outbox/) and logged.
+const outboxTransport: MailTransport = async (message, sender) => {
+  const dir = outboxDir();
+  await mkdir(dir, { recursive: true });
+
+  const sentAt = new Date().toISOString();
+  const file = path.join(dir, `${sentAt.replace(/[:.]/g, "-")}-${message.to.email}.json`);
+  await writeFile(file, JSON.stringify({ sentAt, from: sender, ...message }, null, 2));
+
+  console.log(`[mail:outbox] to=${message.to.email} subject="${message.subject}"\n${message.textContent}`);
+  return { ok: true };
+};
+
+const transports: Record<string, MailTransport> = {
+  brevo: brevoTransport,
+  smtp: smtpTransport,
+  outbox: outboxTransport,
+};
+
+// Sends a transactional email through the transport named by MAIL_TRANSPORT
+// (brevo, smtp or outbox; brevo by default), using EMAIL_FROM /
+// EMAIL_FROM_NAME as the sender.
+export async function sendEmail(message: MailMessage): Promise<SendResult> {
+  const name = process.env.MAIL_TRANSPORT || "brevo";
+  const transport = transports[name];
+
+  if (!transport) {
+    console.error(`Unknown MAIL_TRANSPORT "${name}"`);
+    return { ok: false, detail: "Email provider not configured" };
+  }
+
+  const sender = {
+    name: process.env.EMAIL_FROM_NAME || "GEC Bilaspur Alumni",
+    email: process.env.EMAIL_FROM || "no-reply@yourdomain.com",
+  };
+
+  try {
+    return await transport(message, sender);
+  } catch (err) {
+    console.error(`Mail transport "${name}" failed:`, err);
+    return { ok: false, detail: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export type OutboxMessage = MailMessage & { sentAt: string; from: Sender };
+
+// Messages captured by the outbox transport, oldest first. Lets scripts and
+// tests assert on what would have been sent.
+export async function readOutbox(): Promise<OutboxMessage[]> {
+  const dir = outboxDir();
+  const files = await readdir(dir).catch(() => [] as string[]);
+
+  const messages = await Promise.all(
+    files
+      .filter((f) => f.endsWith(".json"))
+      .sort()
+      .map(async (f) => JSON.parse(await readFile(path.join(dir, f), "utf8")) as OutboxMessage)
+  );
+  return messages;
+}
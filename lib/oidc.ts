@@ -0,0 +1,84 @@
+import type { User } from "next-auth";
+import type { OAuthConfig } from "next-auth/providers/oauth";
+import { prisma } from "./prisma";
+import { emailMatch } from "./email-address";
+import { isRole } from "./permissions";
+
+export const OIDC_PROVIDER_ID = "oidc";
+
+// Standard claims read from the identity provider
+export type OidcProfile = {
+  sub: string;
+  email?: string;
+  // some providers send the string "true"
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+};
+
+function hasVerifiedEmail(profile: OidcProfile): profile is OidcProfile & { email: string } {
+  return !!profile.email && (profile.email_verified === true || profile.email_verified === "true");
+}
+
+// Generic OpenID Connect sign-in, configured entirely from the environment so
+// any compliant identity provider (or a local mock server) can be used.
+// Returns null, and the button is hidden, until all three settings are present.
+export function oidcProvider(): OAuthConfig<OidcProfile> | null {
+  const wellKnown = process.env.OIDC_DISCOVERY_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+
+  if (!wellKnown || !clientId || !clientSecret) return null;
+
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: process.env.OIDC_PROVIDER_NAME || "Single sign-on",
+    type: "oauth",
+    wellKnown,
+    clientId,
+    clientSecret,
+    authorization: { params: { scope: "openid email profile" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+
+    // Accounts are only linked when the provider vouches for the email.
+    // Without a link the id stays 0 and the signIn callback sends the visitor
+    // to registration instead (see oidcSignInRedirect).
+    async profile(profile) {
+      const linked = hasVerifiedEmail(profile)
+        ? await prisma.user.findFirst({
+            where: { email: emailMatch(profile.email) },
+            select: { id: true, email: true, roles: true, twoFactorEnabled: true },
+          })
+        : null;
+
+      return {
+        id: linked?.id ?? 0,
+        email: linked?.email ?? profile.email ?? "",
+        roles: linked?.roles.filter(isRole) ?? [],
+        twoFactorEnabled: linked?.twoFactorEnabled ?? false,
+      } as User;
+    },
+  };
+}
+
+// Where to send an OIDC sign-in that did not match an account, or true to
+// let it through.
+export function oidcSignInRedirect(
+  user: { id: number | string; twoFactorEnabled?: boolean },
+  profile: OidcProfile
+): true | string {
+  // Single sign-on would skip the second step, so these accounts use the password form
+  if (user.id && user.twoFactorEnabled) return "/login?error=TwoFactorPasswordOnly";
+  if (user.id) return true;
+
+  if (!hasVerifiedEmail(profile)) return "/login?error=OidcEmailNotVerified";
+
+  const fullName =
+    profile.name || [profile.given_name, profile.family_name].filter(Boolean).join(" ");
+  const prefill = new URLSearchParams({ email: profile.email });
+  if (fullName) prefill.set("fullName", fullName);
+
+  return `/register?${prefill}`;
+}
@@ -1,8 +1,53 @@
 import CredentialsProvider from "next-auth/providers/credentials";
 import { NextAuthOptions, User } from "next-auth";
 import bcrypt from "bcrypt";
+import type { User as Account } from "@prisma/client";
 import { prisma } from "./prisma";
-
+import { emailMatch } from "./email-address";
+import { isRole } from "./permissions";
+import { verifySecondFactor } from "./totp";
+import { checkOtp } from "./otp";
+import { clearLoginFailures, loginBlock, loginIp, recordFailedLogin } from "./login-guard";
+import { endSession, startSession, touchSession } from "./sessions";
+import { OIDC_PROVIDER_ID, OidcProfile, oidcProvider, oidcSignInRedirect } from "./oidc";
+
+const oidc = oidcProvider();
+
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+// Shared last step of both credentials providers: the second factor, then
+// the claims the jwt callback starts from. The login form asks for a code
+// when it sees the TwoFactor* errors. Wrong codes count as failed sign-ins,
+// so they lock the account just like wrong passwords.
+async function completeSignIn(user : Account , ip : string , code? : string) : Promise<User> {
+  if(user.twoFactorEnabled){
+    if(!code){
+      throw new Error("TwoFactorRequired");
+    }
+    if(!(await verifySecondFactor(user , code))){
+      await recordFailedLogin(user , ip);
+      throw new Error("TwoFactorInvalid");
+    }
+  }
+
+  return{
+    id : user.id,
+    email : user.email,
+    roles : user.roles.filter(isRole),
+    twoFactorEnabled : user.twoFactorEnabled
+  } as User;
+}
+
+// Errors the login form shows as they are; anything else is a plain failure
+const CLIENT_ERRORS = ["TwoFactorRequired" , "TwoFactorInvalid" , "AccountLocked" , "TooManyAttempts"];
+
+function signInError(err : unknown) : null {
+  if(err instanceof Error && CLIENT_ERRORS.includes(err.message)){
+    throw err;
+  }
+  console.error("Auth error: "+err);
+  return null;
+}
 
 export const authOptions : NextAuthOptions = {
   providers : [
@@ -13,78 +58,141 @@ export const authOptions : NextAuthOptions = {
       credentials:{
         email : {label : "email" , placeholder : "Email" },
         password : {label : "password" , placeholder : "Password"},
+        code : {label : "code" , placeholder : "Authenticator or recovery code"},
       },
 
-      async authorize(credentials, req) : Promise<User | null> {
+      async authorize(credentials) : Promise<User | null> {
           if(!credentials?.email || !credentials.password){
             return null;
           }
           try{
-            const role = req.body?.role;
-
-            if(role === "alumni"){
-              const user = await prisma.user.findFirst({
-                where : {
-                  email : credentials.email,
-                  role : "alumni"
-                }
-              });
-
-              if(!user){
-                return null;
+            // One lookup for everyone; what the account may do comes from its
+            // roles (see lib/permissions.ts), not from the login form
+            const user = await prisma.user.findFirst({
+              where : {
+                email : emailMatch(credentials.email)
               }
+            });
+
+            // Failed attempts are counted per account and IP, see lib/login-guard.ts
+            const ip = await loginIp();
+            const blocked = await loginBlock(user , ip);
+            if(blocked){
+              throw new Error(blocked);
+            }
 
-              const isValid = await bcrypt.compare(credentials.password , user.password);
+            if(!user || !(await bcrypt.compare(credentials.password , user.password))){
+              await recordFailedLogin(user , ip);
+              return null;
+            }
+
+            const signedIn = await completeSignIn(user , ip , credentials.code);
+            await clearLoginFailures(user.id);
+            return signedIn;
+          }
+          catch(err){
+            return signInError(err);
+          }
+      },
+    }),
+
+    // Passwordless: a single-use code (or the link carrying it) from /api/login/code
+    CredentialsProvider({
+      id : "email-code",
+      name : "Email code",
+
+      credentials:{
+        email : {label : "email" , placeholder : "Email" },
+        otp : {label : "otp" , placeholder : "6-digit code from the email"},
+        code : {label : "code" , placeholder : "Authenticator or recovery code"},
+      },
 
-              if(!isValid){
-                return null;
+      async authorize(credentials) : Promise<User | null> {
+          if(!credentials?.email || !credentials.otp){
+            return null;
+          }
+          try{
+            const user = await prisma.user.findFirst({
+              where : {
+                email : emailMatch(credentials.email)
               }
+            });
 
-              return{
-                id : user.id,
-                email : user.email,
-                role : "alumni"
-              } as User;
+            if(!user){
+              return null;
             }
-            if(role === "admin"){
-              const seller = await prisma.user.findFirst({
-                where : {
-                  email : credentials.email,
-                  role: "admin"
-                }
-              });
-
-              if(!seller){
-                return null;
-              }
 
-              const isValid = await bcrypt.compare(credentials.password , seller.password);
+            // a locked account stays locked here too, or the second factor
+            // could be guessed through this door instead
+            const ip = await loginIp();
+            const blocked = await loginBlock(user , ip);
+            if(blocked){
+              throw new Error(blocked);
+            }
 
-              if(!isValid){
-                return null;
-              }
+            const result = await checkOtp(user.id , "login" , credentials.otp);
 
-              return{
-                id : seller.id,
-                email : seller.email,
-                role : "admin"
-              } as User;
+            if(result.status !== "ok"){
+              return null;
             }
+
+            // kept until the second factor passes, so the same code can be resubmitted with it
+            const signedIn = await completeSignIn(user , ip , credentials.code);
+            await prisma.otp.deleteMany({ where : { userId : user.id , purpose : "login" } });
+            await clearLoginFailures(user.id);
+            return signedIn;
           }
           catch(err){
-            console.error("Auth error: "+err);
-            return null;
+            return signInError(err);
           }
-          return null;
       },
-    })
+    }),
+    ...(oidc ? [oidc] : [])
   ],
 
   callbacks:{
+    async signIn({user , account , profile}){
+      if(account?.provider === OIDC_PROVIDER_ID){
+        return oidcSignInRedirect(user , profile as OidcProfile);
+      }
+      return true;
+    },
+
     async jwt({user , token}){
       if(user){
-        token.id = user.id;
-        token.role = user.role;
+        token.id = user.id as number;
+        token.roles = user.roles;
+      }
+
+      // Refresh the claims middleware.ts guards on, so email verification and
+      // admin approval take effect without signing in again
+      if(token.id){
+        const current = await prisma.user.findUnique({
+          where : { id : token.id },
+          select : { email : true , roles : true , isEmailVerified : true , verified : true , twoFactorEnabled : true }
+        });
+
+        if(!current){
+          throw new Error("Session user no longer exists");
+        }
+
+        // Every sign-in is tracked as a LoginSession; tokens issued before
+        // that existed get one on their next request
+        if(!token.sid){
+          token.sid = await startSession(token.id);
+        }
+        // Revoked from the profile page or by a password change; throwing
+        // makes NextAuth drop the cookie
+        else if(!(await touchSession(token.sid))){
+          throw new Error("Session has been revoked");
+        }
+
+        // follows a confirmed email change, see /api/profile/email/confirm
+        token.email = current.email;
+        token.roles = current.roles.filter(isRole);
+        token.isEmailVerified = current.isEmailVerified;
+        token.verified = current.verified;
+        token.twoFactorEnabled = current.twoFactorEnabled;
       }
 
       return token;
@@ -93,21 +201,32 @@ export const authOptions : NextAuthOptions = {
     async session({session , token}){
       if(session.user){
         session.user.id = token.id as number;
-        session.user.role = token.role as "user" | "seller";
+        session.user.email = token.email as string;
+        session.user.roles = token.roles ?? [];
+        session.user.twoFactorEnabled = token.twoFactorEnabled ?? false;
       }
+      session.sessionId = token.sid;
 
       return session;
     }
   },
 
+  events:{
+    async signOut({token}){
+      if(token?.sid){
+        await endSession(token.sid);
+      }
+    }
+  },
+
   pages : {
-        signIn : "/signin",
+        signIn : "/login",
         error : "/error"
   },
 
   session:{
     strategy : "jwt",
-    maxAge : 30 * 24 * 60 * 60
+    maxAge : SESSION_MAX_AGE
   },
 
   secret:process.env.NEXTAUTH_SECRET
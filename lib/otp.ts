@@ -0,0 +1,101 @@
+import { randomInt } from "crypto";
+import bcrypt from "bcrypt";
+import { prisma } from "./prisma";
+import { Limit, recordHit, retryAfter } from "./rate-limit";
+
+export type OtpPurpose =
+  | "email-verification"
+  | "password-reset"
+  | "email-change"
+  | "account-deletion"
+  | "login";
+
+export const OTP_TTL_MINUTES = 10;
+
+// wrong guesses allowed before the code is locked and a new one is needed
+export const OTP_MAX_ATTEMPTS = 5;
+
+// how often one account may be sent a code: a resend cooldown and a daily cap
+const USER_SEND_LIMITS: Limit[] = [
+  { max: 1, windowSeconds: 60 },
+  { max: 5, windowSeconds: 24 * 60 * 60 },
+];
+
+// how many codes one IP may trigger across all accounts
+const IP_SEND_LIMITS: Limit[] = [
+  { max: 5, windowSeconds: 10 * 60 },
+  { max: 20, windowSeconds: 24 * 60 * 60 },
+];
+
+export function userSendRetryAfter(userId: number) {
+  return retryAfter(`otp-send:user:${userId}`, USER_SEND_LIMITS);
+}
+
+export function ipSendRetryAfter(ip: string) {
+  return retryAfter(`otp-send:ip:${ip}`, IP_SEND_LIMITS);
+}
+
+// Counts a send against both the account and the IP. Returns the cooldown
+// before the account may ask again.
+export async function recordOtpSend(userId: number, ip: string) {
+  await recordHit(`otp-send:user:${userId}`);
+  await recordHit(`otp-send:ip:${ip}`);
+  return userSendRetryAfter(userId);
+}
+
+// Replaces any earlier code for this purpose and returns the new plain code.
+export async function issueOtp(userId: number, purpose: OtpPurpose) {
+  const otp = randomInt(100000, 1000000).toString();
+  const hashedOtp = await bcrypt.hash(otp, 10);
+
+  // only the newest code is valid
+  await prisma.otp.deleteMany({ where: { userId, purpose } });
+
+  await prisma.otp.create({
+    data: {
+      otp: hashedOtp,
+      expires: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000),
+      userId,
+      purpose,
+    },
+  });
+
+  return otp;
+}
+
+export type OtpCheck =
+  | { status: "ok" }
+  | { status: "missing" | "expired" | "locked" }
+  | { status: "wrong"; attemptsLeft: number };
+
+// Compares `code` with the stored code, counting every guess. Does not
+// consume the code; callers delete it along with their own writes.
+export async function checkOtp(
+  userId: number,
+  purpose: OtpPurpose,
+  code: string
+): Promise<OtpCheck> {
+  const otpData = await prisma.otp.findFirst({ where: { userId, purpose } });
+
+  if (!otpData) return { status: "missing" };
+  if (otpData.expires < new Date(Date.now())) return { status: "expired" };
+
+  // Claim the attempt before comparing, so parallel guesses can't all read
+  // the same count and slip past the limit
+  const claimed = await prisma.otp.updateMany({
+    where: { id: otpData.id, attempts: { lt: OTP_MAX_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return { status: "locked" };
+
+  if (await bcrypt.compare(code, otpData.otp)) return { status: "ok" };
+
+  const updated = await prisma.otp.findUnique({
+    where: { id: otpData.id },
+    select: { attempts: true },
+  });
+  const attempts = updated?.attempts ?? OTP_MAX_ATTEMPTS;
+
+  if (attempts >= OTP_MAX_ATTEMPTS) return { status: "locked" };
+  return { status: "wrong", attemptsLeft: OTP_MAX_ATTEMPTS - attempts };
+}
@@ -0,0 +1,83 @@
+// Roles a user can hold (any number of them) and what each one allows.
+// API routes, pages and middleware ask `can(user, permission)` instead of
+// comparing role strings. Safe to import from middleware (no Node APIs).
+
+export const ROLES = [
+  "alumni",
+  "student",
+  "faculty",
+  "moderator",
+  "event_manager",
+  "chapter_coordinator",
+  "admin",
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "verifications:review",
+  "users:assign-roles",
+  "audit:read",
+  "emails:preview",
+  "events:manage",
+  "invites:create",
+  "users:unlock",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  alumni: [],
+  student: [],
+  faculty: ["verifications:review"],
+  moderator: ["verifications:review", "emails:preview", "users:unlock"],
+  event_manager: ["events:manage"],
+  chapter_coordinator: ["invites:create"],
+  admin: PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  alumni: "Alumni",
+  student: "Student",
+  faculty: "Faculty",
+  moderator: "Moderator",
+  event_manager: "Event Manager",
+  chapter_coordinator: "Chapter Coordinator",
+  admin: "Administrator",
+};
+
+type RoleHolder =
+  | { roles?: readonly string[] | null; twoFactorEnabled?: boolean }
+  | null
+  | undefined;
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+// The admin role only takes effect once the account has two-factor
+// authentication on; until then the user is treated as holding their other roles.
+function effectiveRoles(user: RoleHolder) {
+  return (user?.roles ?? []).filter((r) => r !== "admin" || user?.twoFactorEnabled);
+}
+
+// True when the admin role is held but not yet usable
+export function needsTwoFactorSetup(user: RoleHolder) {
+  return !!user?.roles?.includes("admin") && !user.twoFactorEnabled;
+}
+
+export function hasRole(user: RoleHolder, role: Role) {
+  return effectiveRoles(user).includes(role);
+}
+
+export function permissionsOf(user: RoleHolder): Permission[] {
+  const granted = new Set<Permission>();
+  for (const role of effectiveRoles(user)) {
+    if (isRole(role)) ROLE_PERMISSIONS[role].forEach((p) => granted.add(p));
+  }
+  return [...granted];
+}
+
+export function can(user: RoleHolder, permission: Permission) {
+  return permissionsOf(user).includes(permission);
+}
@@ -1,3 +1,6 @@
 import { PrismaClient } from "@prisma/client";
+import { auditExtension } from "./audit";
 
-export const prisma = new PrismaClient();
\ No newline at end of file
+const client = new PrismaClient();
+
+export const prisma = client.$extends(auditExtension(client));
@@ -0,0 +1,59 @@
+// Who may see each contact field of a directory listing. The owner always
+// sees their own details. Safe to import from client components.
+export const VISIBILITIES = ["public", "verified", "batch", "hidden"] as const;
+
+export type Visibility = (typeof VISIBILITIES)[number];
+
+export const VISIBILITY_LABELS: Record<Visibility, string> = {
+  public: "Everyone",
+  verified: "Verified alumni",
+  batch: "My batch only",
+  hidden: "Only me",
+};
+
+export const CONTACT_FIELDS = ["email", "mobile", "location"] as const;
+
+export type ContactField = (typeof CONTACT_FIELDS)[number];
+
+// User column holding the setting for each field
+export const VISIBILITY_COLUMNS = {
+  email: "emailVisibility",
+  mobile: "mobileVisibility",
+  location: "locationVisibility",
+} as const satisfies Record<ContactField, string>;
+
+type VisibilityColumn = (typeof VISIBILITY_COLUMNS)[ContactField];
+
+// The person looking at the directory; null when signed out
+export type Viewer = { id: number; gradYear: number; verified: boolean } | null;
+
+type Listing = { id: number; gradYear: number } & Partial<Record<ContactField, string | null>> &
+  Record<VisibilityColumn, string>;
+
+export function canSee(visibility: string, viewer: Viewer, owner: { id: number; gradYear: number }) {
+  if (viewer?.id === owner.id) return true;
+  switch (visibility) {
+    case "public":
+      return true;
+    case "verified":
+      return !!viewer?.verified;
+    case "batch":
+      return !!viewer?.verified && viewer.gradYear === owner.gradYear;
+    default:
+      return false;
+  }
+}
+
+// Blanks the contact fields the viewer may not see and drops the settings
+export function applyPrivacy<T extends Listing>(listing: T, viewer: Viewer) {
+  const { emailVisibility, mobileVisibility, locationVisibility, ...rest } = listing;
+  const settings = { emailVisibility, mobileVisibility, locationVisibility };
+
+  const visible = { ...rest } as Omit<T, VisibilityColumn>;
+  for (const field of CONTACT_FIELDS) {
+    if (field in visible && !canSee(settings[VISIBILITY_COLUMNS[field]], viewer, listing)) {
+      (visible as Record<ContactField, string | null>)[field] = null;
+    }
+  }
+  return visible;
+}
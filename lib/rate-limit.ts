@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { prisma } from "./prisma";
+
+export type Limit = {
+  max: number;
+  windowSeconds: number;
+};
+
+// Hits older than the longest window we use are never read again
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+// Best-effort client IP behind Vercel / a reverse proxy
+export function getClientIp(req: { headers: Pick<Headers, "get"> }) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip") ?? "unknown";
+}
+
+// Seconds the caller has to wait before `key` is allowed again under every
+// limit, or 0 when it is allowed now.
+export async function retryAfter(key: string, limits: Limit[]) {
+  let wait = 0;
+
+  for (const limit of limits) {
+    const hits = await prisma.rateLimitHit.findMany({
+      where: {
+        key,
+        createdAt: { gte: new Date(Date.now() - limit.windowSeconds * 1000) },
+      },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    });
+
+    if (hits.length >= limit.max) {
+      // the window frees up once enough of the oldest hits have aged out
+      const blocking = hits[hits.length - limit.max].createdAt.getTime();
+      const seconds = Math.ceil(
+        (blocking + limit.windowSeconds * 1000 - Date.now()) / 1000
+      );
+      wait = Math.max(wait, seconds);
+    }
+  }
+
+  return wait;
+}
+
+// 429 carrying `retryAfter` (seconds) in both the body and the header, so
+// clients can drive their countdown from it
+export function tooManyRequests(message: string, retryAfter: number) {
+  return NextResponse.json(
+    { message, retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+// Hits for `key` within the last `windowSeconds`
+export function countHits(key: string, windowSeconds: number) {
+  return prisma.rateLimitHit.count({
+    where: { key, createdAt: { gte: new Date(Date.now() - windowSeconds * 1000) } },
+  });
+}
+
+export async function clearHits(key: string) {
+  await prisma.rateLimitHit.deleteMany({ where: { key } });
+}
+
+export async function recordHit(key: string) {
+  await prisma.rateLimitHit.create({ data: { key } });
+  await prisma.rateLimitHit.deleteMany({
+    where: {
+      key,
+      createdAt: { lt: new Date(Date.now() - RETENTION_SECONDS * 1000) },
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { Prisma } from "@prisma/client";
+import type { Viewer } from "./privacy";
+
+// Directory search: full text over name (A), organisation (B), designation (C)
+// and location (D), plus trigram similarity on name and organisation so
+// typos still match, and part of the email where the viewer may see it.
+// Indexes are in the directory_search and directory_email_search migrations.
+
+export type TextSearch = {
+  // rows matching the term, for the WHERE clause
+  match: Prisma.Sql;
+  // relevance of a matching row, higher first
+  rank: Prisma.Sql;
+};
+
+// Each word matches as a prefix, all words must match: "infosys pun" finds
+// Infosys employees in Pune
+function prefixQuery(term: string) {
+  return term
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ""))
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+    .join(" & ");
+}
+
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// SQL twin of canSee() in lib/privacy.ts, for a viewer in the members view
+export function visibleSql(column: "emailVisibility" | "locationVisibility", viewer: NonNullable<Viewer>) {
+  const col = Prisma.raw(`"${column}"`);
+  return Prisma.sql`(${col} IN ('public', 'verified') OR (${col} = 'batch' AND "gradYear" = ${viewer.gradYear}) OR "id" = ${viewer.id})`;
+}
+
+// Only fields the viewer can see take part, so a hidden location, designation
+// or email never produces a match.
+export function textSearch(term: string, viewer: Viewer, members: boolean): TextSearch {
+  const query = prefixQuery(term);
+  const nameOrg = Prisma.sql`("fullName" || ' ' || "organisation")`;
+
+  const designation = members ? Prisma.sql`"designation"` : Prisma.sql`''`;
+  const location =
+    members && viewer
+      ? Prisma.sql`CASE WHEN ${visibleSql("locationVisibility", viewer)} THEN coalesce("location", '') ELSE '' END`
+      : Prisma.sql`''`;
+  const emailMatch =
+    members && viewer
+      ? Prisma.sql`OR ("email" ILIKE ${`%${escapeLike(term)}%`} AND ${visibleSql("emailVisibility", viewer)})`
+      : Prisma.empty;
+
+  const document = Prisma.sql`(
+    setweight(to_tsvector('simple', "fullName"), 'A') ||
+    setweight(to_tsvector('simple', "organisation"), 'B') ||
+    setweight(to_tsvector('simple', ${designation}), 'C') ||
+    setweight(to_tsvector('simple', ${location}), 'D')
+  )`;
+  const tsQuery = query
+    ? Prisma.sql`to_tsquery('simple', ${query})`
+    : Prisma.sql`NULL::tsquery`;
+
+  return {
+    // the stored vector and the indexed expressions narrow the rows, the
+    // visible document then decides
+    match: Prisma.sql`(
+      "searchVector" @@ ${tsQuery}
+      OR ${term} <% ${nameOrg}
+      ${emailMatch}
+    ) AND (
+      ${document} @@ ${tsQuery}
+      OR ${term} <% ${nameOrg}
+      ${emailMatch}
+    )`,
+    rank: Prisma.sql`coalesce(ts_rank(${document}, ${tsQuery}), 0) + word_similarity(${term}, ${nameOrg})`,
+  };
+}
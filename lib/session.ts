@@ -0,0 +1,30 @@
+import { getServerSession, Session } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "./options";
+import { can, Permission } from "./permissions";
+
+type GuardResult =
+  | { session: Session; error: null }
+  | { session: null; error: NextResponse };
+
+// Resolves the current session for API routes guarded by a permission.
+// Callers return `error` as-is when it is set.
+export async function requirePermission(permission: Permission): Promise<GuardResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return {
+      session: null,
+      error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  if (!can(session.user, permission)) {
+    return {
+      session: null,
+      error: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { session, error: null };
+}
@@ -0,0 +1,82 @@
+import { headers } from "next/headers";
+import { prisma } from "./prisma";
+import { getClientIp } from "./rate-limit";
+
+// lastSeenAt is only written when it is older than this, so not every
+// request turns into a database write
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+async function requestInfo() {
+  try {
+    const h = await headers();
+    return { userAgent: h.get("user-agent"), ip: getClientIp({ headers: h }) };
+  } catch {
+    // called outside a request
+    return { userAgent: null, ip: null };
+  }
+}
+
+// Records a new sign-in and returns its id, which the JWT carries as `sid`
+export async function startSession(userId: number) {
+  const session = await prisma.loginSession.create({
+    data: { userId, ...(await requestInfo()) },
+  });
+  return session.id;
+}
+
+// False once the session was revoked (or its user deleted); otherwise keeps
+// last seen and IP up to date.
+export async function touchSession(id: string) {
+  const session = await prisma.loginSession.findUnique({ where: { id } });
+  if (!session || session.revokedAt) return false;
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.loginSession.update({
+      where: { id },
+      data: { lastSeenAt: new Date(), ...(await requestInfo()) },
+    });
+  }
+  return true;
+}
+
+export async function endSession(id: string) {
+  await prisma.loginSession.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// Signs out every session of the user except `keepId`. Returns the query
+// unawaited so callers can put it in a transaction.
+export function revokeSessions(userId: number, keepId?: string) {
+  return prisma.loginSession.updateMany({
+    where: { userId, revokedAt: null, ...(keepId ? { id: { not: keepId } } : {}) },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// e.g. "Chrome on Windows"; good enough to recognise one's own devices
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+
+  const os =
+    [
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Windows", "Windows"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "unknown OS";
+
+  return `${browser} on ${os}`;
+}
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { prisma } from "./prisma";
+import type { Limit } from "./rate-limit";
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+// HMAC-SHA1, 6 digits, 30 second steps.
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+// Accept the previous and next step too, for clock drift
+const DRIFT_STEPS = 1;
+
+export const TOTP_ISSUER = "GEC Bilaspur Alumni";
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const idx = BASE32.indexOf(char);
+    if (idx === -1) continue;
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function codeAt(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// The URI authenticator apps read from the enrollment QR code
+export function totpUri(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export function verifyTotp(secret: string, code: string) {
+  const clean = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(clean)) return false;
+
+  const now = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const expected = codeAt(secret, now + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(clean))) return true;
+  }
+  return false;
+}
+
+// e.g. "3f9a2-c81d0"; shown once, only bcrypt hashes are stored
+export async function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((c) => bcrypt.hash(c, 10)));
+  return { codes, hashes };
+}
+
+type TwoFactorUser = {
+  id: number;
+  twoFactorSecret: string | null;
+  twoFactorRecoveryCodes: string[];
+};
+
+// Accepts either a current authenticator code or an unused recovery code.
+// A recovery code is removed as soon as it has been used.
+export async function verifySecondFactor(user: TwoFactorUser, code: string) {
+  if (user.twoFactorSecret && verifyTotp(user.twoFactorSecret, code)) return true;
+
+  const candidate = code.trim().toLowerCase();
+  for (const hash of user.twoFactorRecoveryCodes) {
+    if (await bcrypt.compare(candidate, hash)) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((h) => h !== hash),
+        },
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+// Wrong codes allowed on the 2FA settings of a signed-in account (turning it
+// off, new recovery codes) before they lock for a while; both count together
+export const WRONG_CODE_LIMITS: Limit[] = [{ max: 5, windowSeconds: 15 * 60 }];
+
+export function wrongCodeKey(userId: number) {
+  return `2fa-settings:${userId}`;
+}
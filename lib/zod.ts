@@ -1,7 +1,29 @@
 import z from "zod";
+import { ROLES } from "./permissions";
+import { VISIBILITIES } from "./privacy";
+import { isCommonPassword } from "./common-passwords";
+import { normaliseEmail } from "./email-address";
+
+const emailSchema = z.string().trim().email().transform(normaliseEmail);
+
+// Documents must come from our UploadThing storage (the hosts in
+// next.config.ts), never an arbitrary page that staff would then open
+const UPLOAD_HOSTS = [/^utfs\.io$/, /^[a-z0-9-]+\.ufs\.sh$/, /^cdn\.uploadthing\.com$/];
+
+export const uploadUrlSchema = z
+  .string()
+  .url("Please upload a valid document")
+  .refine((value) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === "https:" && UPLOAD_HOSTS.some((host) => host.test(url.hostname));
+    } catch {
+      return false;
+    }
+  }, "Please upload the document through the form");
 
 export const userSchema = z.object({
-    email: z.string().email(),
+    email: emailSchema,
     password: z.string().min(8, "Password must be at least 8 characters"),
     fullName: z.string().min(2, "Enter your full name"),
     designation : z.string().min(2),
@@ -9,14 +31,91 @@ export const userSchema = z.object({
     branch : z.string().min(2, "Please select a branch"),
     gradYear : z.number().gte(1964),
     mobile: z.string().regex(/^[0-9]{10}$/, "Mobile number must be exactly 10 digits"),
-    role : z.enum(["alumni" , "admin"]),
     location: z.string().min(2, "Location is required (City/State)"),
-    proofPicture: z.string().optional(),
+    proofPicture: z.union([uploadUrlSchema, z.literal("")]).optional(),
 });
 
 export const signinSchema = z.object({
-  email: z.string().email(),
+  email: emailSchema,
     password: z.string()
     .min(8, { message: 'Minimum length 8' }),
-    role : z.enum(["alumni" , "admin"])
-})
\ No newline at end of file
+})
+
+export const emailVerificationSchema = z.object({
+  userId: z.number().int().positive(),
+  otp: z.string().regex(/^[0-9]{6}$/, "Enter the 6-digit code from the email"),
+});
+
+export const verificationDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("reject"),
+    reason: z.string().trim().min(5, "Please give a reason for the rejection"),
+  }),
+]);
+
+export const proofResubmissionSchema = z.object({
+  proofPicture: uploadUrlSchema,
+});
+
+export const rolesUpdateSchema = z.object({
+  roles: z.array(z.enum(ROLES)).min(1, "A user needs at least one role"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const passwordResetSchema = z.object({
+  email: emailSchema,
+  otp: z.string().regex(/^[0-9]{6}$/, "Enter the 6-digit code from the email"),
+  password: userSchema.shape.password,
+});
+
+export const emailChangeSchema = z.object({
+  newEmail: emailSchema,
+});
+
+export const emailChangeConfirmSchema = z.object({
+  otp: z.string().regex(/^[0-9]{6}$/, "Enter the 6-digit code from the email"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app"),
+});
+
+export const passwordChangeSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password"),
+    newPassword: userSchema.shape.password.refine(
+      (p) => !isCommonPassword(p),
+      "This password is too common, please choose another"
+    ),
+  })
+  .refine((d) => d.newPassword !== d.currentPassword, {
+    message: "The new password must be different",
+    path: ["newPassword"],
+  });
+
+export const accountDeletionConfirmSchema = z.object({
+  otp: z.string().regex(/^[0-9]{6}$/, "Enter the 6-digit code from the email"),
+});
+
+export const loginCodeSchema = z.object({
+  email: emailSchema,
+});
+
+export const inviteCreateSchema = z.object({
+  gradYear: userSchema.shape.gradYear,
+  branch: userSchema.shape.branch,
+  // set for a personal invite, left out for a link shared with the whole batch
+  email: emailSchema.optional(),
+  maxUses: z.number().int().min(1).max(500).default(1),
+  expiresInDays: z.number().int().min(1).max(90).default(14),
+});
+
+export const privacySchema = z.object({
+  emailVisibility: z.enum(VISIBILITIES),
+  mobileVisibility: z.enum(VISIBILITIES),
+  locationVisibility: z.enum(VISIBILITIES),
+});
@@ -0,0 +1,37 @@
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+import { checkAccess, isStaffLevel, matchRoute } from "@/lib/access";
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const rule = matchRoute(pathname);
+
+  if (!rule || rule.access === "anonymous") return NextResponse.next();
+
+  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+  const result = checkAccess(token, rule.access);
+
+  if (result === "ok") return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return result === "unauthenticated"
+      ? NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (result === "unauthenticated") {
+    const loginUrl = new URL("/login", req.url);
+    loginUrl.searchParams.set("callbackUrl", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Signed in but not allowed: staff-only pages go home, the rest go to the
+  // profile page, which explains what is still missing
+  return NextResponse.redirect(
+    new URL(isStaffLevel(rule.access) ? "/" : "/profile", req.url)
+  );
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|svg|ico)$).*)"],
+};
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "verificationStatus" TEXT NOT NULL DEFAULT 'pending';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Otp" ADD COLUMN     "purpose" TEXT NOT NULL DEFAULT 'email-verification';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "roles" TEXT[] DEFAULT ARRAY['alumni']::TEXT[];
+
+-- Carry each user's single role over
+UPDATE "User" SET "roles" = ARRAY["role"];
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "role";
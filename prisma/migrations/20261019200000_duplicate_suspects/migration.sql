@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "DuplicateSuspect" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "matchId" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DuplicateSuspect_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DuplicateSuspect_userId_idx" ON "DuplicateSuspect"("userId");
+
+-- AddForeignKey
+ALTER TABLE "DuplicateSuspect" ADD CONSTRAINT "DuplicateSuspect_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuplicateSuspect" ADD CONSTRAINT "DuplicateSuspect_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailVisibility" TEXT NOT NULL DEFAULT 'verified',
+ADD COLUMN     "locationVisibility" TEXT NOT NULL DEFAULT 'public',
+ADD COLUMN     "mobileVisibility" TEXT NOT NULL DEFAULT 'batch';
@@ -0,0 +1,16 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("fullName", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("organisation", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce("designation", '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce("location", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "User_searchVector_idx" ON "User" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "User_fullName_organisation_trgm_idx" ON "User" USING GIN (("fullName" || ' ' || "organisation") gin_trgm_ops);
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "createdAt" TIMESTAMP(3),
+ADD COLUMN     "profileUpdatedAt" TIMESTAMP(3);
+
+-- Existing accounts never recorded when they joined: take the earliest trace
+-- they left, or leave it empty. Past profile edits were not recorded at all.
+UPDATE "User" u SET "createdAt" = (
+    SELECT min("at") FROM (
+        SELECT min("createdAt") AS "at" FROM "VerificationRequest" WHERE "userId" = u."id"
+        UNION ALL
+        SELECT min("createdAt") FROM "AuditLog" WHERE "targetUserId" = u."id"
+        UNION ALL
+        SELECT min("createdAt") FROM "LoginSession" WHERE "userId" = u."id"
+    ) AS "traces"
+);
+
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "createdAt" SET DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "profileUpdatedAt" SET DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "User_email_idx" ON "User" USING GIN ("email" gin_trgm_ops);
@@ -0,0 +1,97 @@
+// prisma/seed.ts
+// Creates the first admin account, or promotes an existing user to admin.
+//
+//   ADMIN_EMAIL=... ADMIN_PASSWORD=... npm run create-admin
+//
+// Missing values are prompted for when run from a terminal. Also runs as
+// `npx prisma db seed`.
+import { createInterface } from "readline/promises";
+import { PrismaClient } from "@prisma/client";
+import bcrypt from "bcrypt";
+import { userSchema } from "@/lib/zod";
+import { emailMatch } from "@/lib/email-address";
+
+const prisma = new PrismaClient();
+
+// The admin role stays inactive until this is done, see lib/permissions.ts
+const TWO_FACTOR_HINT =
+  "Sign in and turn on two-factor authentication on the profile page to open the admin dashboard.";
+
+async function ask(question: string, fallback?: string) {
+  if (fallback) return fallback;
+  if (!process.stdin.isTTY) {
+    throw new Error(`${question} is required (set it in the environment)`);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(`${question}: `)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  const parsedEmail = userSchema.shape.email.safeParse(
+    await ask("Admin email", process.env.ADMIN_EMAIL)
+  );
+  if (!parsedEmail.success) {
+    throw new Error("Admin email is not a valid email address");
+  }
+  const email = parsedEmail.data;
+
+  const existing = await prisma.user.findFirst({ where: { email: emailMatch(email) } });
+
+  if (existing) {
+    if (existing.roles.includes("admin")) {
+      console.log(`${email} is already an admin, nothing to do.`);
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: existing.id },
+      data: { roles: { push: "admin" } },
+    });
+    console.log(`Promoted ${email} to admin.`);
+    console.log(TWO_FACTOR_HINT);
+    return;
+  }
+
+  const password = await ask("Admin password", process.env.ADMIN_PASSWORD);
+  const parsedPassword = userSchema.shape.password.safeParse(password);
+  if (!parsedPassword.success) {
+    throw new Error(parsedPassword.error.issues[0].message);
+  }
+
+  const fullName = await ask("Admin name", process.env.ADMIN_NAME || "Administrator");
+
+  // Same hashing as registration in app/api/auth/route.ts
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  await prisma.user.create({
+    data: {
+      email,
+      password: hashedPassword,
+      fullName,
+      gradYear: new Date().getFullYear(),
+      branch: "Admin",
+      mobile: process.env.ADMIN_MOBILE || "0000000000",
+      organisation: "GEC Bilaspur",
+      designation: "Administrator",
+      roles: ["admin"],
+      isEmailVerified: true,
+      // Approved so the account never lands in the verification queue, but
+      // left unverified so it stays out of the alumni directory
+      verificationStatus: "approved",
+    },
+  });
+  console.log(`Created admin account ${email}.`);
+  console.log(TWO_FACTOR_HINT);
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,19 +1,35 @@
 import { DefaultSession } from "next-auth";
+import type { Role } from "@/lib/permissions";
 
 declare module "next-auth" {
   interface Session {
     user: {
       id: number;
       email: string;
-      role : "alumni" | "admin";
+      roles : Role[];
+      twoFactorEnabled : boolean;
       name?: string | null;
       image?: string | null;
     }&DefaultSession['alumni'];
+    // LoginSession id of this device, see lib/sessions.ts
+    sessionId?: string;
   }
 
   interface User {
     id: number;
     email: string;
-    role : "alumni" | "admin";
+    roles : Role[];
+    twoFactorEnabled : boolean;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    id?: number;
+    roles?: Role[];
+    isEmailVerified?: boolean;
+    verified?: boolean;
+    sid?: string;
+    twoFactorEnabled?: boolean;
   }
 }